@@ -1,51 +1,368 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Plus, Download, Play, Pause, UploadCloud, Volume2 } from 'lucide-react';
-import { AudioTrack, PlaybackState, ProcessingState } from './types';
-import { createAudioContext, decodeAudioFile, mixAudioTracks, audioBufferToWav } from './services/audioUtils';
+import React, { useState, useRef, useEffect } from 'react';
+import { Plus, Download, Play, Pause, Square, SkipBack, Repeat, Scissors, Copy, CopyPlus, ClipboardPaste, Trash2, AudioLines, Activity, ScissorsLineDashed, BetweenHorizontalStart, UploadCloud, Volume2, Undo2, Redo2, History as HistoryIcon } from 'lucide-react';
+import { Arrangement, AudioTrack, Lane, LoopRegion, PlaybackState, ProcessingState, TranscriptSegment } from './types';
+import { createAudioContext, decodeAudioFile } from './services/audioUtils';
+import { MixOptions, DEFAULT_MIX_OPTIONS } from './services/mixEngine';
+import { ExportSettings, DEFAULT_EXPORT_SETTINGS, getExportExtension } from './services/exportAudio';
+import { RenderClient, createRenderClient } from './services/renderClient';
+import { PlaybackEngine, createPlaybackEngine } from './services/playbackEngine';
+import { getExportMarkers } from './services/renderCore';
+import { MasterSettings } from './services/masterBus';
+import { MeterSnapshot } from './services/meters';
+import { isAbortError } from './services/task';
+import { AudioTags } from './services/audioTags';
+import { createTrack, getArrangementDuration, getTrackLength } from './services/trackUtils';
+import { clipsOverlap, createLane, getLaneEnd, resolveLaneConflicts } from './services/lanes';
+import { DuckSettings, createDuckEnvelopes } from './services/autoDuck';
+import {
+  ArrangeSettings,
+  DEFAULT_ARRANGE_SETTINGS,
+  EditResult,
+  arrangeClips,
+  deleteClips,
+  duplicateClips,
+  pasteClips,
+  splitClips,
+} from './services/clipEditing';
+import { DEFAULT_SILENCE_SETTINGS, SilenceSettings, getSilenceTrim } from './services/silence';
+import {
+  Cue,
+  CueAssignment,
+  CueFormatError,
+  applyCues,
+  formatCsvCues,
+  formatCueSheet,
+  formatSrt,
+  formatVttCaptions,
+  formatVttChapters,
+  getArrangementCues,
+  parseCueFile,
+} from './services/cues';
+import { AudioAnalysis, AnalysisFormatError } from './services/analysisRequests';
+import { ProviderAuthError, ProviderError } from './services/aiProvider';
+import { AI_PROVIDERS, AiSettings, createProvider, isAiConfigured, loadAiSettings, saveAiSettings } from './services/aiSettings';
+import {
+  AnalysisScope,
+  AudioAnalyzer,
+  RenderAudio,
+  analyzeSource,
+  createAudioAnalyzer,
+  getAnalysisMarkers,
+  getAnalysisSource,
+} from './services/audioAnalysis';
+import { getArrangementTranscript, transcribeClip } from './services/transcription';
+import { History, createHistory, getPresent, pushHistory, undo, redo, jumpTo, canUndo, canRedo } from './services/history';
+import { SnapSettings, DEFAULT_SNAP_SETTINGS, GRID_SIZES } from './services/snapping';
 import { TrackItem } from './components/TrackItem';
 import { Timeline } from './components/Timeline';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProjectMenu } from './components/ProjectMenu';
+import { CueExportFormat, CueMenu } from './components/CueMenu';
+import { CueImportDialog } from './components/CueImportDialog';
+import { AnalyzeMenu } from './components/AnalyzeMenu';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { AiSettingsDialog } from './components/AiSettingsDialog';
+import { RelinkDialog } from './components/RelinkDialog';
+import { ExportDialog } from './components/ExportDialog';
+import { AutoDuckDialog } from './components/AutoDuckDialog';
+import { SilenceDialog } from './components/SilenceDialog';
+import { ArrangeDialog } from './components/ArrangeDialog';
+import { TimecodeInput } from './components/TimecodeInput';
+import { LevelMeter } from './components/LevelMeter';
+import { SpectrumView } from './components/SpectrumView';
+import {
+  ProjectFile,
+  ProjectFormatError,
+  PROJECT_FILE_EXTENSION,
+  collectSources,
+  getMissingSources,
+  migrateProject,
+  parseProject,
+  projectToBlob,
+  restoreArrangement,
+  serializeProject,
+} from './services/projectFile';
+import { AutosaveRecord, clearAutosave, readAutosave, writeAutosave } from './services/autosave';
+import { downloadBlob, toFileName } from './services/download';
+import { formatTimecode } from './services/timecode';
 
-// Color palette for tracks
-const TRACK_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#6366f1'];
+// Quiet period after the last edit before the session is autosaved
+const AUTOSAVE_DELAY_MS = 2000;
+
+// Arrow keys move the playhead or selected clips by one grid step, or by
+// this many seconds without a grid. Shift multiplies the step.
+const NUDGE_SECONDS = 0.1;
+const NUDGE_SHIFT_FACTOR = 10;
+
+// Transport shortcuts are left alone while a form control has focus, so
+// typing, sliders and selects keep their own keys
+const isFormControl = (target: EventTarget | null): boolean => {
+  const tagName = (target as HTMLElement | null)?.tagName;
+  return tagName === 'INPUT' || tagName === 'TEXTAREA' || tagName === 'SELECT';
+};
+
+// Inputs with their own native undo; sliders, checkboxes, selects and the
+// like have none, so undo shortcuts still reach the arrangement from them
+const TEXT_INPUT_TYPES = ['text', 'number', 'search', 'email', 'url', 'tel', 'password'];
+
+const isTextEditing = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  if (element.tagName === 'TEXTAREA' || element.isContentEditable) return true;
+  return element.tagName === 'INPUT' && TEXT_INPUT_TYPES.includes((element as HTMLInputElement).type);
+};
+
+// Human-readable history label for an edit made through the track controls
+const describeTrackChange = (changes: Partial<AudioTrack>): string => {
+  if ('muted' in changes) return changes.muted ? 'Mute clip' : 'Unmute clip';
+  if ('solo' in changes) return changes.solo ? 'Solo clip' : 'Unsolo clip';
+  if ('laneId' in changes) return 'Move clip to lane';
+  if ('volume' in changes) return 'Change volume';
+  if ('pan' in changes) return 'Change pan';
+  if ('trimStart' in changes || 'trimEnd' in changes) return 'Trim clip';
+  if ('fadeIn' in changes || 'fadeOut' in changes || 'fadeInCurve' in changes || 'fadeOutCurve' in changes) return 'Edit fade';
+  if ('startTime' in changes) return 'Move clip';
+  if ('effects' in changes) return 'Edit effects';
+  if ('volumeEnvelope' in changes) return 'Edit volume envelope';
+  return 'Edit clip';
+};
+
+// Toggles are discrete steps; everything else (sliders, drags, typing) is
+// continuous and collapses into one history entry while it is being adjusted
+const isDiscreteChange = (changes: Partial<AudioTrack>): boolean => {
+  return 'muted' in changes || 'solo' in changes || 'laneId' in changes;
+};
 
 const App: React.FC = () => {
-  const [tracks, setTracks] = useState<AudioTrack[]>([]);
+  const [history, setHistory] = useState<History<Arrangement>>(() => createHistory({ lanes: [], tracks: [] }));
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const arrangement = getPresent<Arrangement>(history);
+  const { lanes, tracks } = arrangement;
   const [playbackState, setPlaybackState] = useState<PlaybackState>({
     isPlaying: false,
     currentTime: 0,
     totalDuration: 0,
   });
+  const [selectedTrackIds, setSelectedTrackIds] = useState<string[]>([]);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [mixOptions, setMixOptions] = useState<MixOptions>(DEFAULT_MIX_OPTIONS);
+  const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+  const [loopEnabled, setLoopEnabled] = useState(false);
+  const [rippleDelete, setRippleDelete] = useState(false);
+  // Snapshots of copied clips; pasting creates fresh copies of these
+  const [clipboard, setClipboard] = useState<AudioTrack[]>([]);
   const [processingState, setProcessingState] = useState<ProcessingState>({
     isProcessing: false,
     message: '',
   });
+  const [projectName, setProjectName] = useState('Untitled project');
+  const [relinkProject, setRelinkProject] = useState<ProjectFile | null>(null);
+  const [autosaveOffer, setAutosaveOffer] = useState<AutosaveRecord | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportArtist, setExportArtist] = useState('');
+  const [isAutoDuckOpen, setIsAutoDuckOpen] = useState(false);
+  const [silenceSettings, setSilenceSettings] = useState<SilenceSettings>(DEFAULT_SILENCE_SETTINGS);
+  const [trimSilenceOnImport, setTrimSilenceOnImport] = useState(false);
+  const [isSilenceOpen, setIsSilenceOpen] = useState(false);
+  const [arrangeSettings, setArrangeSettings] = useState<ArrangeSettings>(DEFAULT_ARRANGE_SETTINGS);
+  const [isArrangeOpen, setIsArrangeOpen] = useState(false);
+  const [cueImport, setCueImport] = useState<{ fileName: string; cues: Cue[] } | null>(null);
+  // Latest Gemini analysis, with segment times moved onto the timeline
+  const [analysis, setAnalysis] = useState<{ label: string; result: AudioAnalysis } | null>(null);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  // Live levels while playing, read from the playback graph every frame
+  const [meters, setMeters] = useState<MeterSnapshot | null>(null);
+  const [showSpectrum, setShowSpectrum] = useState(false);
   
   const audioContextRef = useRef<AudioContext | null>(null);
-  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const pauseTimeRef = useRef<number>(0);
+  const playbackEngineRef = useRef<PlaybackEngine | null>(null);
   const animationFrameRef = useRef<number>(0);
-  const mergedBufferRef = useRef<AudioBuffer | null>(null);
+  const renderClientRef = useRef<RenderClient | null>(null);
+  const analyzerRef = useRef<AudioAnalyzer | null>(null);
+  // Latest arrangement, for the playhead loop which outlives the render it started in
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+  // Autosave stays off until any previous session has been restored or discarded,
+  // so an empty startup state never overwrites it
+  const autosaveEnabledRef = useRef(false);
+  // Autosave ids of source files, kept stable so each file is stored only once
+  const autosaveIdsRef = useRef(new WeakMap<File, string>());
 
-  // Initialize AudioContext
+  // Initialize AudioContext and the render worker
   useEffect(() => {
     audioContextRef.current = createAudioContext();
+    const client = createRenderClient();
+    renderClientRef.current = client;
+    playbackEngineRef.current = createPlaybackEngine(audioContextRef.current, client.processClip);
+    analyzerRef.current = createAudioAnalyzer();
     return () => {
+      playbackEngineRef.current?.dispose();
       audioContextRef.current?.close();
+      renderClientRef.current?.dispose();
     };
   }, []);
 
+  // Look for a session left behind by a reload or crash
+  useEffect(() => {
+    readAutosave()
+      .then(record => {
+        if (record && record.project.clips.length > 0) {
+          setAutosaveOffer(record);
+        } else {
+          autosaveEnabledRef.current = true;
+        }
+      })
+      .catch(error => {
+        console.error("Error reading autosave:", error);
+        autosaveEnabledRef.current = true;
+      });
+  }, []);
+
+  // Autosave a moment after the arrangement settles
+  useEffect(() => {
+    if (!autosaveEnabledRef.current) return;
+    const timer = window.setTimeout(async () => {
+      try {
+        const sourceIds = collectSources(arrangement.tracks, autosaveIdsRef.current);
+        const project = await serializeProject(projectName, arrangement, mixOptions, { embedAudio: false, sourceIds });
+        const files = new Map<string, Blob>();
+        sourceIds.forEach((id, file) => files.set(id, file));
+        await writeAutosave(project, files);
+      } catch (error) {
+        console.error("Autosave failed:", error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [arrangement, projectName, mixOptions]);
+
   // Update total duration whenever tracks change
   useEffect(() => {
-    if (tracks.length === 0) {
-      setPlaybackState(prev => ({ ...prev, totalDuration: 0 }));
-      return;
-    }
-    const maxDuration = tracks.reduce((max, track) => Math.max(max, track.startTime + track.duration), 0);
+    const maxDuration = getArrangementDuration(tracks);
     setPlaybackState(prev => ({ ...prev, totalDuration: maxDuration }));
-    
-    // Invalidate merged buffer
-    mergedBufferRef.current = null;
+
+    // Reschedule playing clips so edits are heard without stopping the
+    // transport; removing the last clip has to silence it too
+    playbackEngineRef.current?.update(tracks, mixOptions);
+  }, [tracks, mixOptions]);
+
+  useEffect(() => {
+    playbackEngineRef.current?.setLoop(loopEnabled ? loopRegion : null);
+  }, [loopRegion, loopEnabled]);
+
+  // Applies an edit to the arrangement as a new undoable step
+  const commitArrangement = (
+    label: string,
+    update: (prev: Arrangement) => Arrangement,
+    coalesceKey?: string
+  ) => {
+    setHistory(prev => pushHistory(prev, update(getPresent(prev)), label, coalesceKey));
+  };
+
+  const navigateHistory = (navigate: (prev: History<Arrangement>) => History<Arrangement>) => {
+    setHistory(navigate);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes. Text fields keep
+  // their own native undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextEditing(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        navigateHistory(undo);
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        navigateHistory(redo);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Space plays or pauses, Home and End jump to either end of the
+  // arrangement, arrows move the playhead and Alt+arrows the selected clips
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || isFormControl(event.target)) return;
+
+      const step = (snapSettings.enabled && snapSettings.gridSize > 0 ? snapSettings.gridSize : NUDGE_SECONDS)
+        * (event.shiftKey ? NUDGE_SHIFT_FACTOR : 1);
+
+      switch (event.key) {
+        case ' ':
+          // A focused button would also be clicked by the space bar
+          if ((event.target as HTMLElement | null)?.tagName === 'BUTTON') return;
+          event.preventDefault();
+          togglePlayPause();
+          break;
+        case 'Home':
+          event.preventDefault();
+          seekTo(0);
+          break;
+        case 'End':
+          event.preventDefault();
+          seekTo(playbackState.totalDuration);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight': {
+          event.preventDefault();
+          const delta = event.key === 'ArrowLeft' ? -step : step;
+          if (event.altKey) {
+            nudgeSelection(delta);
+          } else {
+            seekTo((playbackEngineRef.current?.getPosition() ?? playbackState.currentTime) + delta);
+          }
+          break;
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // S splits at the playhead, Delete removes the selection, and Ctrl/Cmd with
+  // C, V or D copies, pastes or duplicates clips
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || isFormControl(event.target)) return;
+      const key = event.key.toLowerCase();
+
+      if (event.ctrlKey || event.metaKey) {
+        if (key === 'c' && selectedTrackIds.length > 0) {
+          event.preventDefault();
+          copySelection();
+        } else if (key === 'v' && clipboard.length > 0) {
+          event.preventDefault();
+          pasteClipboard();
+        } else if (key === 'd') {
+          event.preventDefault();
+          duplicateSelection();
+        }
+        return;
+      }
+
+      if (key === 's') {
+        event.preventDefault();
+        splitSelection();
+      } else if (key === 'delete' || key === 'backspace') {
+        event.preventDefault();
+        removeTracks(selectedTrackIds);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Drop selections of clips that an undo or redo removed
+  useEffect(() => {
+    setSelectedTrackIds(prev => {
+      const remaining = prev.filter(id => tracks.some(t => t.id === id));
+      return remaining.length === prev.length ? prev : remaining;
+    });
   }, [tracks]);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -55,34 +372,34 @@ const App: React.FC = () => {
     setProcessingState({ isProcessing: true, message: 'Decoding audio...' });
 
     try {
-      const newTracks: AudioTrack[] = [];
+      const decoded: { file: File; buffer: AudioBuffer }[] = [];
       
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         const buffer = await decodeAudioFile(file, audioContextRef.current);
-        
-        // Auto-increment start time if tracks exist, otherwise 0
-        // Simple logic: If adding first track, start at 0.
-        // If adding subsequent, maybe start after the last one ends? 
-        // For now, let's default to 0 and let user adjust, or default to end of last track.
-        let defaultStartTime = 0;
-        if (tracks.length > 0) {
-           const lastTrack = tracks[tracks.length - 1];
-           defaultStartTime = lastTrack.startTime + lastTrack.duration;
-        }
+        decoded.push({ file, buffer });
+      }
+
+      const label = decoded.length === 1 ? `Add ${decoded[0].file.name}` : `Add ${decoded.length} clips`;
+      commitArrangement(label, prev => {
+        // New clips are laid out back to back after the last clip on the lane
+        // the most recent clip went to, or on a fresh lane for an empty project.
+        // With trimming on import, silent heads and tails are dropped first.
+        const lanes = prev.lanes.length > 0 ? prev.lanes : [createLane(0)];
+        const lastTrack = prev.tracks[prev.tracks.length - 1];
+        const laneId = lastTrack ? lastTrack.laneId : lanes[0].id;
+        let startTime = getLaneEnd(prev.tracks, laneId);
 
-        newTracks.push({
-          id: Math.random().toString(36).substr(2, 9),
-          file,
-          fileName: file.name,
-          buffer,
-          duration: buffer.duration,
-          startTime: defaultStartTime,
-          color: TRACK_COLORS[(tracks.length + i) % TRACK_COLORS.length],
+        const newTracks = decoded.map(({ file, buffer }) => {
+          let track = createTrack(file, buffer, laneId, startTime);
+          const trim = trimSilenceOnImport ? getSilenceTrim(track, silenceSettings) : null;
+          if (trim) track = { ...track, ...trim };
+          startTime += getTrackLength(track);
+          return track;
         });
-      }
 
-      setTracks(prev => [...prev, ...newTracks]);
+        return { lanes, tracks: [...prev.tracks, ...newTracks] };
+      });
     } catch (error) {
       console.error("Error uploading file:", error);
       alert("Failed to process audio file. Please try another format.");
@@ -93,28 +410,160 @@ const App: React.FC = () => {
     }
   };
 
-  const removeTrack = (id: string) => {
-    stopAudio();
-    setTracks(prev => prev.filter(t => t.id !== id));
+  // Removes clips, closing the gaps they leave when ripple delete is on
+  const removeTracks = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const noun = ids.length === 1 ? 'clip' : `${ids.length} clips`;
+    commitArrangement(rippleDelete ? `Ripple delete ${noun}` : `Remove ${noun}`, prev => deleteClips(prev, ids, rippleDelete));
+    setSelectedTrackIds(prev => prev.filter(selectedId => !ids.includes(selectedId)));
   };
 
-  const updateTrackStartTime = (id: string, newTime: number) => {
-    // Stop playback if modifying timeline
-    if (playbackState.isPlaying) stopAudio();
-    
-    setTracks(prev => prev.map(t => 
-      t.id === id ? { ...t, startTime: Math.max(0, newTime) } : t
-    ));
+  const removeTrack = (id: string) => removeTracks([id]);
+
+  // Commits an edit that produced new clips and selects them. The edit is
+  // computed up front so the ids it generates are known.
+  const commitEdit = (label: string, result: EditResult) => {
+    if (result.ids.length === 0) return;
+    commitArrangement(label, () => result.arrangement);
+    setSelectedTrackIds(result.ids);
   };
 
-  const prepareMergedAudio = useCallback(() => {
-    if (!audioContextRef.current || tracks.length === 0) return null;
-    
-    if (!mergedBufferRef.current) {
-      mergedBufferRef.current = mixAudioTracks(tracks, audioContextRef.current);
+  // Drops leading and trailing silence from the given clips. The remaining
+  // audio keeps its place on the timeline.
+  const trimSilence = (ids: string[], settings: SilenceSettings) => {
+    const trims = new Map(
+      tracks
+        .filter(t => ids.includes(t.id))
+        .map(t => [t.id, getSilenceTrim(t, settings)] as const)
+        .filter(([, trim]) => trim !== null)
+    );
+    if (trims.size === 0) {
+      alert("No silence was found at the start or end of the selected clips.");
+      return;
     }
-    return mergedBufferRef.current;
-  }, [tracks]);
+    commitArrangement('Trim silence', prev => ({
+      ...prev,
+      tracks: prev.tracks.map(t => {
+        const trim = trims.get(t.id);
+        return trim ? { ...t, ...trim, startTime: t.startTime + trim.trimStart - t.trimStart } : t;
+      }),
+    }));
+  };
+
+  const saveSilenceSettings = (settings: SilenceSettings, trimOnImport: boolean) => {
+    setSilenceSettings(settings);
+    setTrimSilenceOnImport(trimOnImport);
+    setIsSilenceOpen(false);
+  };
+
+  const arrangeSelection = (settings: ArrangeSettings) => {
+    setArrangeSettings(settings);
+    setIsArrangeOpen(false);
+    commitEdit('Auto-arrange', arrangeClips(arrangement, selectedTrackIds, settings));
+  };
+
+  const getPlayhead = () => playbackEngineRef.current?.getPosition() ?? playbackState.currentTime;
+
+  const splitSelection = () => {
+    commitEdit('Split clip', splitClips(arrangement, selectedTrackIds, getPlayhead()));
+  };
+
+  const duplicateSelection = () => {
+    const result = duplicateClips(arrangement, selectedTrackIds);
+    commitEdit(result.ids.length === 1 ? 'Duplicate clip' : `Duplicate ${result.ids.length} clips`, result);
+  };
+
+  const copySelection = () => {
+    setClipboard(tracks.filter(t => selectedTrackIds.includes(t.id)));
+  };
+
+  const pasteClipboard = () => {
+    const result = pasteClips(arrangement, clipboard, getPlayhead());
+    commitEdit(result.ids.length === 1 ? 'Paste clip' : `Paste ${result.ids.length} clips`, result);
+  };
+
+  const updateTrack = (id: string, changes: Partial<AudioTrack>) => {
+    // An edit that makes the clip collide with a neighbour bumps it to a free lane
+    const coalesceKey = isDiscreteChange(changes) ? undefined : `track:${id}:${Object.keys(changes).sort().join(',')}`;
+    commitArrangement(describeTrackChange(changes), prev => resolveLaneConflicts({
+      ...prev,
+      tracks: prev.tracks.map(t => 
+        t.id === id ? { ...t, ...changes } : t
+      ),
+    }, [id]), coalesceKey);
+  };
+
+  // Timeline drags are already checked for collisions, so positions apply as-is
+  const moveTracks = (positions: Record<string, { startTime: number; laneId: string }>) => {
+    const ids = Object.keys(positions);
+    const label = ids.length === 1 ? 'Move clip' : `Move ${ids.length} clips`;
+    commitArrangement(label, prev => ({
+      ...prev,
+      tracks: prev.tracks.map(t =>
+        t.id in positions
+          ? { ...t, startTime: Math.max(0, positions[t.id].startTime), laneId: positions[t.id].laneId }
+          : t
+      ),
+    }), `move:${ids.sort().join(',')}`);
+  };
+
+  // Shifts the selected clips in time. Like a drag, a move that would collide
+  // with another clip on the lane is not taken.
+  const nudgeSelection = (delta: number) => {
+    const moving = tracks.filter(t => selectedTrackIds.includes(t.id));
+    if (moving.length === 0) return;
+
+    const earliest = Math.min(...moving.map(t => t.startTime));
+    const clamped = Math.max(-earliest, delta);
+    if (clamped === 0) return;
+
+    const moved = moving.map(t => ({ ...t, startTime: t.startTime + clamped }));
+    const staying = tracks.filter(t => !selectedTrackIds.includes(t.id));
+    if (moved.some(m => staying.some(t => t.laneId === m.laneId && clipsOverlap(t, m)))) return;
+
+    moveTracks(Object.fromEntries(moved.map(t => [t.id, { startTime: t.startTime, laneId: t.laneId }] as const)));
+  };
+
+  const addLane = () => {
+    commitArrangement('Add lane', prev => ({ ...prev, lanes: [...prev.lanes, createLane(prev.lanes.length)] }));
+  };
+
+  const updateLane = (id: string, changes: Partial<Lane>) => {
+    const coalesceKey = `lane:${id}:${Object.keys(changes).sort().join(',')}`;
+    commitArrangement('Edit lane', prev => ({
+      ...prev,
+      lanes: prev.lanes.map(l => (l.id === id ? { ...l, ...changes } : l)),
+    }), coalesceKey);
+  };
+
+  // Only empty lanes can be removed, so no clip is ever left without a lane
+  const removeLane = (id: string) => {
+    commitArrangement('Remove lane', prev => {
+      if (prev.lanes.length <= 1 || prev.tracks.some(t => t.laneId === id)) return prev;
+      return { ...prev, lanes: prev.lanes.filter(l => l.id !== id) };
+    });
+  };
+
+  const hideProcessing = () => setProcessingState({ isProcessing: false, message: '' });
+
+  const toggleAutoCrossfade = () => {
+    setMixOptions(prev => ({ ...prev, autoCrossfade: !prev.autoCrossfade }));
+  };
+
+  // Loops the selected clips, or the whole arrangement, when no region has
+  // been drawn yet
+  const toggleLoop = () => {
+    if (!loopEnabled && !loopRegion) {
+      const selected = tracks.filter(t => selectedTrackIds.includes(t.id));
+      const range = selected.length > 0 ? selected : tracks;
+      if (range.length === 0) return;
+      setLoopRegion({
+        start: Math.min(...range.map(t => t.startTime)),
+        end: Math.max(...range.map(t => t.startTime + getTrackLength(t))),
+      });
+    }
+    setLoopEnabled(prev => !prev);
+  };
 
   const togglePlayPause = () => {
     if (tracks.length === 0) return;
@@ -127,87 +576,372 @@ const App: React.FC = () => {
   };
 
   const playAudio = () => {
-    const ctx = audioContextRef.current;
-    const buffer = prepareMergedAudio();
-
-    if (!ctx || !buffer) return;
-
-    if (ctx.state === 'suspended') {
-      ctx.resume();
-    }
-
-    sourceNodeRef.current = ctx.createBufferSource();
-    sourceNodeRef.current.buffer = buffer;
-    sourceNodeRef.current.connect(ctx.destination);
-
-    // Calculate start offset
-    const offset = pauseTimeRef.current % buffer.duration;
-    
-    sourceNodeRef.current.start(0, offset);
-    startTimeRef.current = ctx.currentTime - offset;
+    const engine = playbackEngineRef.current;
+    if (!engine) return;
 
+    engine.play(tracks, mixOptions, engine.getPosition());
     setPlaybackState(prev => ({ ...prev, isPlaying: true }));
-    
-    // Animation loop for progress
+
+    // Animation loop for progress. The arrangement may grow or shrink while
+    // playing, so the end is checked against the latest tracks. A loop running
+    // past the end keeps playing silence until it wraps.
     const updateProgress = () => {
-      if (!ctx) return;
-      const current = ctx.currentTime - startTimeRef.current;
-      
-      if (current >= buffer.duration) {
+      const current = engine.getPosition();
+      if (current >= getArrangementDuration(tracksRef.current) && !engine.isLooping()) {
         stopAudio();
         return;
       }
 
       setPlaybackState(prev => ({ ...prev, currentTime: current }));
+      setMeters(engine.readMeters());
       animationFrameRef.current = requestAnimationFrame(updateProgress);
     };
-    
-    animationFrameRef.current = requestAnimationFrame(updateProgress);
 
-    sourceNodeRef.current.onended = () => {
-       // Handled by time check usually, but backup here
-    };
+    animationFrameRef.current = requestAnimationFrame(updateProgress);
   };
 
   const pauseAudio = () => {
-    if (sourceNodeRef.current) {
-      sourceNodeRef.current.stop();
-      sourceNodeRef.current = null;
-    }
-    if (audioContextRef.current) {
-      pauseTimeRef.current = audioContextRef.current.currentTime - startTimeRef.current;
+    const engine = playbackEngineRef.current;
+    if (engine) {
+      engine.pause();
+      setPlaybackState(prev => ({ ...prev, currentTime: engine.getPosition() }));
     }
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
+    setMeters(null);
     setPlaybackState(prev => ({ ...prev, isPlaying: false }));
   };
 
+  // Stops and puts the playhead back where playback was started
   const stopAudio = () => {
-    if (sourceNodeRef.current) {
-      try { sourceNodeRef.current.stop(); } catch(e) {}
-      sourceNodeRef.current = null;
-    }
+    const engine = playbackEngineRef.current;
+    engine?.stop();
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
-    pauseTimeRef.current = 0;
-    setPlaybackState(prev => ({ ...prev, isPlaying: false, currentTime: 0 }));
+    setMeters(null);
+    setPlaybackState(prev => ({ ...prev, isPlaying: false, currentTime: engine?.getPosition() ?? 0 }));
+  };
+
+  const resetClipIndicators = () => playbackEngineRef.current?.resetClipIndicators();
+
+  // Moves the playhead; playback carries on from there if running
+  const seekTo = (time: number) => {
+    const position = Math.max(0, Math.min(playbackState.totalDuration, time));
+    playbackEngineRef.current?.seek(position);
+    setPlaybackState(prev => ({ ...prev, currentTime: position }));
+  };
+
+  const handleExport = async (settings: ExportSettings, tags: AudioTags) => {
+    setIsExportOpen(false);
+    setExportSettings(settings);
+    setExportArtist(tags.artist ?? '');
+
+    const client = renderClientRef.current;
+    const ctx = audioContextRef.current;
+    if (!client || !ctx || tracks.length === 0) return;
+
+    let cancel = () => {};
+    const showProgress = (message: string, progress: number) => {
+      setProcessingState({ isProcessing: true, message, progress, onCancel: () => cancel() });
+    };
+
+    showProgress('Mixing...', 0);
+    const markers = getExportMarkers(arrangement);
+    const task = client.exportMix(tracks, mixOptions, ctx.sampleRate, settings, tags, markers, (phase, fraction) => {
+      showProgress(phase === 'mixing' ? 'Mixing...' : 'Encoding...', fraction);
+    });
+    cancel = task.cancel;
+
+    try {
+      const blob = await task.promise;
+      downloadBlob(blob, `${toFileName(projectName)}.${getExportExtension(settings)}`);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error exporting mix:", error);
+        alert("Failed to export the mix.");
+      }
+    } finally {
+      hideProcessing();
+    }
+  };
+
+  // Replaces the volume envelopes of the music lane's clips with ones that dip
+  // under the voice lane
+  const applyAutoDuck = async (voiceLaneId: string, musicLaneId: string, settings: DuckSettings) => {
+    setIsAutoDuckOpen(false);
+
+    const controller = new AbortController();
+    const showProgress = (progress: number) => {
+      setProcessingState({ isProcessing: true, message: 'Analyzing voice...', progress, onCancel: () => controller.abort() });
+    };
+
+    showProgress(0);
+    try {
+      const envelopes = await createDuckEnvelopes(tracks, voiceLaneId, musicLaneId, settings, {
+        signal: controller.signal,
+        onProgress: showProgress,
+      });
+      commitArrangement('Auto-duck', prev => ({
+        ...prev,
+        tracks: prev.tracks.map(t => (t.id in envelopes ? { ...t, volumeEnvelope: envelopes[t.id] } : t)),
+      }));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error building ducking envelope:", error);
+        alert("Failed to auto-duck the music.");
+      }
+    } finally {
+      hideProcessing();
+    }
   };
 
-  const handleDownload = () => {
-    const buffer = prepareMergedAudio();
-    if (!buffer) return;
+  const openCueFile = async (file: File) => {
+    try {
+      setCueImport({ fileName: file.name, cues: parseCueFile(await file.text(), file.name) });
+    } catch (error) {
+      console.error("Error reading cue file:", error);
+      alert(error instanceof CueFormatError ? error.message : "Failed to read the cue file.");
+    }
+  };
+
+  const applyCueImport = (assignments: CueAssignment[]) => {
+    setCueImport(null);
+    const result = applyCues(arrangement, assignments);
+    commitEdit(result.ids.length === 1 ? 'Place clip from cue' : `Place ${result.ids.length} clips from cues`, result);
+  };
+
+  // Clip boundaries as a CSV or CUE sheet, or as WebVTT chapters, and clip
+  // transcripts as subtitles
+  const exportCues = (format: CueExportFormat) => {
+    const cues = getArrangementCues(arrangement);
+    const transcript = getArrangementTranscript(tracks);
+    const baseName = toFileName(projectName);
+    const files: Record<CueExportFormat, { text: string; type: string; extension: string }> = {
+      csv: { text: formatCsvCues(cues), type: 'text/csv', extension: 'csv' },
+      cue: { text: formatCueSheet(cues, `${baseName}.wav`, projectName), type: 'application/x-cue', extension: 'cue' },
+      vtt: { text: formatVttChapters(cues, getArrangementDuration(tracks)), type: 'text/vtt', extension: 'vtt' },
+      srt: { text: formatSrt(transcript), type: 'application/x-subrip', extension: 'srt' },
+      captions: { text: formatVttCaptions(transcript), type: 'text/vtt', extension: 'vtt' },
+    };
+    const { text, type, extension } = files[format];
+    downloadBlob(new Blob([text], { type }), `${baseName}.${extension}`);
+  };
+
+  // Renders audio for AI requests; cancelling the request stops the render too
+  const renderAnalysisAudio: RenderAudio = (clips, settings, control) => {
+    const client = renderClientRef.current;
+    const ctx = audioContextRef.current;
+    if (!client || !ctx) return Promise.reject(new Error("The renderer is not ready."));
+    const task = client.exportMix(clips, mixOptions, ctx.sampleRate, settings, {}, [], (_phase, fraction) => {
+      control?.onProgress?.(fraction);
+    });
+    control?.signal?.addEventListener('abort', task.cancel);
+    return task.promise;
+  };
+
+  // Provider errors carry a message for the user; a missing or rejected key
+  // reopens the AI settings
+  const reportAiError = (error: unknown, fallback: string) => {
+    if (isAbortError(error)) return;
+    console.error("Error requesting AI analysis:", error);
+    if (error instanceof ProviderAuthError) setIsAiSettingsOpen(true);
+    if (error instanceof ProviderError) {
+      alert(error.message);
+    } else if (error instanceof AnalysisFormatError) {
+      alert(`The reply could not be read. ${error.message}`);
+    } else {
+      alert(fallback);
+    }
+  };
+
+  const saveAi = (settings: AiSettings) => {
+    setIsAiSettingsOpen(false);
+    setAiSettings(settings);
+    saveAiSettings(settings);
+  };
+
+  // Sends the chosen audio for analysis and shows the segments it finds on
+  // the timeline
+  const analyzeScope = async (type: AnalysisScope['type']) => {
+    const analyzer = analyzerRef.current;
+    if (!analyzer) return;
+    if (!isAiConfigured(aiSettings)) {
+      setIsAiSettingsOpen(true);
+      return;
+    }
+
+    const scope: AnalysisScope =
+      type === 'clip' ? { type, trackId: selectedTrackIds[0] } : type === 'range' && loopRegion ? { type, region: loopRegion } : { type: 'mix' };
+    const source = getAnalysisSource(tracks, scope);
+    if (!source) {
+      alert("There is no audio to analyze there.");
+      return;
+    }
+
+    const controller = new AbortController();
+    const showProgress = (progress: number) => {
+      setProcessingState({ isProcessing: true, message: 'Analyzing audio...', progress, onCancel: () => controller.abort() });
+    };
+
+    showProgress(0);
+    try {
+      const result = await analyzeSource(source, renderAnalysisAudio, createProvider(aiSettings), analyzer, {
+        signal: controller.signal,
+        onProgress: showProgress,
+      });
+      setAnalysis({ label: source.label, result });
+    } catch (error) {
+      reportAiError(error, "Failed to analyze the audio.");
+    } finally {
+      hideProcessing();
+    }
+  };
+
+  // Transcribes the selected clips, or all of them, and keeps each transcript
+  // on its clip so later moves carry it along
+  const transcribeClips = async () => {
+    const analyzer = analyzerRef.current;
+    if (!analyzer) return;
+    if (!isAiConfigured(aiSettings)) {
+      setIsAiSettingsOpen(true);
+      return;
+    }
+    const targets = selectedTrackIds.length > 0 ? tracks.filter(t => selectedTrackIds.includes(t.id)) : tracks;
+    if (targets.length === 0) return;
+
+    const controller = new AbortController();
+    const showProgress = (message: string, progress: number) => {
+      setProcessingState({ isProcessing: true, message, progress, onCancel: () => controller.abort() });
+    };
+
+    const transcripts: Record<string, TranscriptSegment[]> = {};
+    try {
+      const provider = createProvider(aiSettings);
+      for (let i = 0; i < targets.length; i++) {
+        const track = targets[i];
+        const message = `Transcribing "${track.fileName}"...`;
+        showProgress(message, i / targets.length);
+        transcripts[track.id] = await transcribeClip(track, renderAnalysisAudio, provider, analyzer, {
+          signal: controller.signal,
+          onProgress: fraction => showProgress(message, (i + fraction) / targets.length),
+        });
+      }
+      commitArrangement(targets.length === 1 ? 'Transcribe clip' : `Transcribe ${targets.length} clips`, prev => ({
+        ...prev,
+        tracks: prev.tracks.map(t => (t.id in transcripts ? { ...t, transcript: transcripts[t.id] } : t)),
+      }));
+    } catch (error) {
+      reportAiError(error, "Failed to transcribe the audio.");
+    } finally {
+      hideProcessing();
+    }
+  };
+
+  // Loudness and peak figures for the export dialog
+  const analyzeMix = (master: MasterSettings) => {
+    const client = renderClientRef.current;
+    const ctx = audioContextRef.current;
+    if (!client || !ctx || tracks.length === 0) return null;
+    return client.analyze(tracks, mixOptions, ctx.sampleRate, master, () => {});
+  };
+
+  const saveProject = async (embedAudio: boolean) => {
+    setProcessingState({ isProcessing: true, message: 'Saving project...' });
+    try {
+      const project = await serializeProject(projectName, arrangement, mixOptions, { embedAudio });
+      downloadBlob(projectToBlob(project), `${toFileName(projectName)}${PROJECT_FILE_EXTENSION}`);
+    } catch (error) {
+      console.error("Error saving project:", error);
+      alert("Failed to save the project.");
+    } finally {
+      setProcessingState({ isProcessing: false, message: '' });
+    }
+  };
 
-    const wavBlob = audioBufferToWav(buffer);
-    const url = URL.createObjectURL(wavBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'merged-audio.wav';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  // Replaces the current session with a saved project. `files` supplies audio
+  // for sources the project only references by name.
+  const loadProject = async (project: ProjectFile, files: Map<string, File>) => {
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+
+    stopAudio();
+    seekTo(0);
+    setLoopRegion(null);
+    setLoopEnabled(false);
+    setAnalysis(null);
+    setProcessingState({ isProcessing: true, message: 'Loading project...' });
+
+    try {
+      const restored = await restoreArrangement(project, files, file => decodeAudioFile(file, ctx));
+      setHistory(createHistory(restored, 'Open project'));
+      setProjectName(project.name);
+      setMixOptions(project.settings);
+      setSelectedTrackIds([]);
+
+      const skipped = project.clips.length - restored.tracks.length;
+      if (skipped > 0) {
+        alert(`${skipped} clip${skipped === 1 ? '' : 's'} could not be restored because the audio was not found.`);
+      }
+    } catch (error) {
+      console.error("Error loading project:", error);
+      alert("Failed to load the project's audio.");
+    } finally {
+      setProcessingState({ isProcessing: false, message: '' });
+    }
+  };
+
+  const openProject = async (file: File) => {
+    try {
+      const project = parseProject(await file.text());
+      if (getMissingSources(project).length > 0) {
+        setRelinkProject(project);
+      } else {
+        await loadProject(project, new Map());
+      }
+    } catch (error) {
+      console.error("Error opening project:", error);
+      alert(error instanceof ProjectFormatError ? error.message : "Failed to open the project file.");
+    }
+  };
+
+  const relinkSources = (files: File[]) => {
+    if (!relinkProject) return;
+    const located = new Map<string, File>();
+    for (const source of getMissingSources(relinkProject)) {
+      const match = files.find(f => f.name === source.fileName);
+      if (match) located.set(source.id, match);
+    }
+    setRelinkProject(null);
+    loadProject(relinkProject, located);
+  };
+
+  const restoreAutosave = async () => {
+    if (!autosaveOffer) return;
+    const record: AutosaveRecord = autosaveOffer;
+    setAutosaveOffer(null);
+    autosaveEnabledRef.current = true;
+
+    try {
+      const files = new Map<string, File>();
+      for (const [id, blob] of Object.entries(record.files)) {
+        const source = record.project.sources.find(s => s.id === id);
+        const file = blob instanceof File ? blob : new File([blob], source?.fileName ?? id, { type: blob.type });
+        files.set(id, file);
+        autosaveIdsRef.current.set(file, id);
+      }
+      await loadProject(migrateProject(record.project), files);
+    } catch (error) {
+      console.error("Error restoring autosave:", error);
+      alert("The autosaved session could not be restored.");
+    }
+  };
+
+  const discardAutosave = () => {
+    setAutosaveOffer(null);
+    autosaveEnabledRef.current = true;
+    clearAutosave().catch(error => console.error("Error clearing autosave:", error));
   };
 
   return (
@@ -220,15 +954,72 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
               SonicWeave
             </h1>
+            <input
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              className="ml-2 w-48 bg-transparent text-sm text-slate-300 px-2 py-1 rounded border border-transparent hover:border-slate-800 focus:border-slate-700 focus:bg-slate-900 focus:outline-none"
+              title="Project name"
+            />
           </div>
           <div className="flex items-center gap-4">
+             <ProjectMenu canSave={tracks.length > 0} onOpen={openProject} onSave={saveProject} />
+             <CueMenu
+               hasClips={tracks.length > 0}
+               hasTranscript={tracks.some(t => t.transcript.length > 0)}
+               onImport={openCueFile}
+               onExport={exportCues}
+             />
+             <AnalyzeMenu
+               hasClips={tracks.length > 0}
+               canAnalyzeClip={selectedTrackIds.length === 1}
+               canAnalyzeRange={loopRegion !== null}
+               selectedCount={selectedTrackIds.length}
+               onAnalyze={analyzeScope}
+               onTranscribe={transcribeClips}
+               providerLabel={AI_PROVIDERS.find(p => p.value === aiSettings.provider)?.label ?? ''}
+               onOpenSettings={() => setIsAiSettingsOpen(true)}
+             />
+             <div className="relative flex items-center gap-1">
+                <button
+                  onClick={() => navigateHistory(undo)}
+                  disabled={!canUndo(history)}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  onClick={() => navigateHistory(redo)}
+                  disabled={!canRedo(history)}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 size={16} />
+                </button>
+                <button
+                  onClick={() => setIsHistoryOpen(open => !open)}
+                  className={`p-2 hover:text-white hover:bg-slate-800 rounded-lg transition-colors ${isHistoryOpen ? 'text-blue-400' : 'text-slate-400'}`}
+                  title="History"
+                >
+                  <HistoryIcon size={16} />
+                </button>
+                {isHistoryOpen && (
+                  <div className="absolute right-0 top-full mt-2">
+                    <HistoryPanel
+                      history={history}
+                      onJump={(index) => navigateHistory(prev => jumpTo(prev, index))}
+                    />
+                  </div>
+                )}
+             </div>
              {tracks.length > 0 && (
                 <button
-                  onClick={handleDownload}
+                  onClick={() => setIsExportOpen(true)}
                   className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-sm font-medium transition-colors border border-slate-700"
                 >
                   <Download size={16} />
-                  <span className="hidden sm:inline">Export WAV</span>
+                  <span className="hidden sm:inline">Export</span>
                 </button>
              )}
           </div>
@@ -236,6 +1027,30 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-5xl mx-auto px-4 py-8 space-y-8">
+
+        {/* Autosave recovery */}
+        {autosaveOffer && (
+          <div className="flex flex-col sm:flex-row items-center gap-4 bg-blue-950/40 border border-blue-900/60 rounded-xl px-5 py-4">
+            <p className="flex-1 text-sm text-slate-300">
+              An autosaved session <span className="font-medium text-white">"{autosaveOffer.project.name}"</span> from{' '}
+              {new Date(autosaveOffer.project.savedAt).toLocaleString()} was found. Restore it?
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={discardAutosave}
+                className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={restoreAutosave}
+                className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        )}
         
         {/* Hero / Empty State */}
         {tracks.length === 0 && (
@@ -266,25 +1081,155 @@ const App: React.FC = () => {
             <section>
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-lg font-semibold text-white">Timeline Preview</h2>
-                <div className="text-sm font-mono text-blue-400 bg-blue-900/20 px-3 py-1 rounded-full border border-blue-900/50">
-                  {playbackState.currentTime.toFixed(2)}s / {playbackState.totalDuration.toFixed(2)}s
+                <div className="ml-6 flex items-center gap-1 text-slate-400">
+                  {[
+                    { icon: Scissors, label: 'Split at playhead (S)', onClick: splitSelection, disabled: selectedTrackIds.length === 0 },
+                    { icon: CopyPlus, label: 'Duplicate (Ctrl+D)', onClick: duplicateSelection, disabled: selectedTrackIds.length === 0 },
+                    { icon: Copy, label: 'Copy (Ctrl+C)', onClick: copySelection, disabled: selectedTrackIds.length === 0 },
+                    { icon: ClipboardPaste, label: 'Paste at playhead (Ctrl+V)', onClick: pasteClipboard, disabled: clipboard.length === 0 },
+                    { icon: Trash2, label: 'Delete (Del)', onClick: () => removeTracks(selectedTrackIds), disabled: selectedTrackIds.length === 0 },
+                    { icon: ScissorsLineDashed, label: 'Trim silence', onClick: () => setIsSilenceOpen(true), disabled: false },
+                    { icon: BetweenHorizontalStart, label: 'Auto-arrange selected clips', onClick: () => setIsArrangeOpen(true), disabled: selectedTrackIds.length < 2 },
+                    { icon: AudioLines, label: 'Auto-duck music under voice', onClick: () => setIsAutoDuckOpen(true), disabled: lanes.length < 2 },
+                  ].map(({ icon: Icon, label, onClick, disabled }) => (
+                    <button
+                      key={label}
+                      onClick={onClick}
+                      disabled={disabled}
+                      className="p-1.5 rounded hover:bg-slate-800 hover:text-slate-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                      title={label}
+                    >
+                      <Icon size={16} />
+                    </button>
+                  ))}
+                  <label className="ml-2 flex items-center gap-2 text-xs cursor-pointer select-none" title="Deleting a clip moves later clips on its lane left to close the gap">
+                    <input
+                      type="checkbox"
+                      checked={rippleDelete}
+                      onChange={() => setRippleDelete(prev => !prev)}
+                      className="accent-blue-500"
+                    />
+                    Ripple delete
+                  </label>
+                </div>
+                <div className="ml-auto mr-4 flex items-center gap-2 text-xs text-slate-400" title="Hold Alt while dragging to bypass snapping">
+                  <label className="flex items-center gap-2 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={snapSettings.enabled}
+                      onChange={() => setSnapSettings(prev => ({ ...prev, enabled: !prev.enabled }))}
+                      className="accent-blue-500"
+                    />
+                    Snap
+                  </label>
+                  <select
+                    value={snapSettings.gridSize}
+                    onChange={(e) => setSnapSettings(prev => ({ ...prev, gridSize: parseFloat(e.target.value) }))}
+                    disabled={!snapSettings.enabled}
+                    className="bg-slate-900 border border-slate-700 text-white px-1 py-0.5 rounded disabled:opacity-50"
+                  >
+                    {GRID_SIZES.map(size => (
+                      <option key={size} value={size}>{size === 0 ? 'No grid' : `${size}s grid`}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="mr-4 flex items-center gap-2 text-xs text-slate-400 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    checked={mixOptions.autoCrossfade}
+                    onChange={toggleAutoCrossfade}
+                    className="accent-blue-500"
+                  />
+                  Auto crossfade overlaps
+                </label>
+                <div className="flex items-center text-sm font-mono text-blue-400 bg-blue-900/20 px-2 py-1 rounded-full border border-blue-900/50">
+                  <TimecodeInput value={playbackState.currentTime} onCommit={seekTo} className="w-24 text-right" />
+                  <span className="px-1">/ {formatTimecode(playbackState.totalDuration)}</span>
                 </div>
               </div>
               <Timeline 
                 tracks={tracks} 
+                lanes={lanes}
                 currentTime={playbackState.currentTime} 
                 totalDuration={playbackState.totalDuration} 
+                autoCrossfade={mixOptions.autoCrossfade}
+                snapSettings={snapSettings}
+                loopRegion={loopRegion}
+                loopEnabled={loopEnabled}
+                markers={analysis ? getAnalysisMarkers(analysis.result.segments) : []}
+                selectedIds={selectedTrackIds}
+                onSelectionChange={setSelectedTrackIds}
+                onUpdateTrack={updateTrack}
+                onMoveTracks={moveTracks}
+                onAddLane={addLane}
+                onUpdateLane={updateLane}
+                onRemoveLane={removeLane}
+                onSeek={seekTo}
+                onLoopChange={setLoopRegion}
               />
               
               {/* Playback Controls */}
               <div className="flex items-center justify-center gap-6 mt-6">
+                <button
+                  onClick={() => seekTo(0)}
+                  className="p-3 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                  title="Return to start (Home)"
+                >
+                  <SkipBack size={20} />
+                </button>
+                <button
+                  onClick={stopAudio}
+                  className="p-3 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+                  title="Stop"
+                >
+                  <Square size={20} fill="currentColor" />
+                </button>
                 <button
                   onClick={togglePlayPause}
                   className="w-14 h-14 flex items-center justify-center rounded-full bg-blue-600 text-white hover:bg-blue-500 shadow-lg shadow-blue-900/50 transition-transform active:scale-95"
+                  title="Play / Pause (Space)"
                 >
                   {playbackState.isPlaying ? <Pause fill="currentColor" /> : <Play fill="currentColor" className="ml-1" />}
                 </button>
+                <button
+                  onClick={toggleLoop}
+                  className={`p-3 rounded-full transition-colors hover:bg-slate-800 ${loopEnabled ? 'text-blue-400' : 'text-slate-400 hover:text-white'}`}
+                  title={loopEnabled ? 'Turn loop off' : 'Loop the marked region'}
+                >
+                  <Repeat size={20} />
+                </button>
+              </div>
+
+              {/* Master meters */}
+              <div className="mt-6 flex items-center gap-3 max-w-xl mx-auto">
+                <span className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Master</span>
+                <div className="flex-1">
+                  <LevelMeter reading={meters?.master ?? null} height={8} showScale onResetClip={resetClipIndicators} />
+                </div>
+                <button
+                  onClick={() => setShowSpectrum(prev => !prev)}
+                  className={`p-1.5 rounded hover:bg-slate-800 transition-colors ${showSpectrum ? 'text-blue-400' : 'text-slate-400 hover:text-slate-200'}`}
+                  title={showSpectrum ? 'Hide spectrum' : 'Show spectrum'}
+                >
+                  <Activity size={16} />
+                </button>
               </div>
+              {showSpectrum && (
+                <SpectrumView
+                  spectrum={meters?.spectrum ?? null}
+                  sampleRate={audioContextRef.current?.sampleRate ?? 44100}
+                  className="mt-3 h-32 max-w-xl mx-auto bg-slate-950 rounded border border-slate-800"
+                />
+              )}
+
+              {analysis && (
+                <AnalysisPanel
+                  label={analysis.label}
+                  analysis={analysis.result}
+                  onSeek={seekTo}
+                  onClose={() => setAnalysis(null)}
+                />
+              )}
             </section>
 
             {/* Track List */}
@@ -307,8 +1252,12 @@ const App: React.FC = () => {
                   <TrackItem 
                     key={track.id} 
                     track={track} 
+                    lanes={lanes}
+                    isSelected={selectedTrackIds.includes(track.id)}
                     onRemove={removeTrack}
-                    onStartTimeChange={updateTrackStartTime}
+                    onUpdate={updateTrack}
+                    meter={meters?.tracks[track.id] ?? null}
+                    onResetClip={resetClipIndicators}
                   />
                 ))}
               </div>
@@ -317,12 +1266,101 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {isExportOpen && (
+        <ExportDialog
+          initialSettings={exportSettings}
+          initialTags={{ title: projectName, artist: exportArtist }}
+          onAnalyze={analyzeMix}
+          onExport={handleExport}
+          onCancel={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isAutoDuckOpen && (
+        <AutoDuckDialog
+          lanes={lanes}
+          onApply={applyAutoDuck}
+          onCancel={() => setIsAutoDuckOpen(false)}
+        />
+      )}
+
+      {isSilenceOpen && (
+        <SilenceDialog
+          initialSettings={silenceSettings}
+          initialTrimOnImport={trimSilenceOnImport}
+          selectedCount={selectedTrackIds.length}
+          onSave={saveSilenceSettings}
+          onTrimSelection={(settings, trimOnImport) => {
+            saveSilenceSettings(settings, trimOnImport);
+            trimSilence(selectedTrackIds, settings);
+          }}
+          onCancel={() => setIsSilenceOpen(false)}
+        />
+      )}
+
+      {isArrangeOpen && (
+        <ArrangeDialog
+          initialSettings={arrangeSettings}
+          clipCount={selectedTrackIds.length}
+          onApply={arrangeSelection}
+          onCancel={() => setIsArrangeOpen(false)}
+        />
+      )}
+
+      {cueImport && (
+        <CueImportDialog
+          fileName={cueImport.fileName}
+          cues={cueImport.cues}
+          arrangement={arrangement}
+          onApply={applyCueImport}
+          onCancel={() => setCueImport(null)}
+        />
+      )}
+
+      {isAiSettingsOpen && (
+        <AiSettingsDialog
+          initialSettings={aiSettings}
+          onSave={saveAi}
+          onCancel={() => setIsAiSettingsOpen(false)}
+        />
+      )}
+
+      {relinkProject && (
+        <RelinkDialog
+          projectName={relinkProject.name}
+          missing={getMissingSources(relinkProject)}
+          onLocate={relinkSources}
+          onCancel={() => setRelinkProject(null)}
+        />
+      )}
+
       {/* Global Processing Indicator */}
       {processingState.isProcessing && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
            <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl flex flex-col items-center animate-bounce-in">
              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4"></div>
              <p className="text-white font-medium">{processingState.message}</p>
+             {processingState.progress !== undefined && (
+               <div className="w-56 mt-4">
+                 <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                   <div
+                     className="h-full bg-blue-500 transition-[width] duration-150"
+                     style={{ width: `${Math.round(processingState.progress * 100)}%` }}
+                   />
+                 </div>
+                 <p className="text-xs text-slate-400 text-center mt-2 font-mono">
+                   {Math.round(processingState.progress * 100)}%
+                 </p>
+               </div>
+             )}
+             {processingState.onCancel && (
+               <button
+                 onClick={processingState.onCancel}
+                 className="mt-4 px-4 py-1.5 text-sm text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+               >
+                 Cancel
+               </button>
+             )}
            </div>
         </div>
       )}
@@ -0,0 +1,128 @@
+// Renders a saved SonicWeave project, or a hand-written arrangement JSON,
+// from the command line with the same mixer and encoders as an export from
+// the app. Audio has to be WAV; files are looked up relative to the input.
+//
+//   npm run render -- episode.sonicweave -o episode.wav [--settings export.json]
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { MIX_SAMPLE_RATE, MixSource } from '../services/mixEngine';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_CONTAINERS, ExportSettings } from '../services/exportAudio';
+import { DEFAULT_MASTER_SETTINGS } from '../services/masterBus';
+import { isOpusEncodingSupported } from '../services/oggOpusEncoder';
+import { ProjectFile, ProjectSource, parseArrangementFile } from '../services/projectFile';
+import { renderProject } from '../services/renderCore';
+import { WavFormatError, loadWavSource } from '../services/wavDecoder';
+
+const USAGE = `Usage: render <input> -o <output> [options]
+
+<input> is a saved .sonicweave project or an arrangement JSON file.
+
+Options:
+  -o, --output <file>     File to write; .wav or .flac picks the format
+  -s, --settings <file>   JSON with export settings, as in the export dialog
+  -a, --audio-dir <dir>   Where referenced audio lives (default: next to the input)
+      --title <text>      Title tag (default: the project or arrangement name)
+      --artist <text>     Artist tag
+  -h, --help              Show this help`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const toArrayBuffer = (bytes: Uint8Array): ArrayBuffer =>
+  bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+// Export settings from the settings file, with the container taken from the
+// output extension unless the file names one
+const readExportSettings = async (settingsPath: string | undefined, outputPath: string): Promise<ExportSettings> => {
+  const saved: Partial<ExportSettings> = settingsPath ? JSON.parse(await readFile(settingsPath, 'utf8')) : {};
+  const extension = path.extname(outputPath).slice(1).toLowerCase();
+  const container = EXPORT_CONTAINERS.find(c => c.extension === extension);
+  if (!container) throw new UsageError('The output file has to end in .wav or .flac.');
+  return {
+    ...DEFAULT_EXPORT_SETTINGS,
+    container: container.value,
+    ...saved,
+    master: { ...DEFAULT_MASTER_SETTINGS, ...saved.master },
+  };
+};
+
+const readSourceFile = async (source: ProjectSource, audioDir: string): Promise<ArrayBuffer> => {
+  if (source.data) return toArrayBuffer(Buffer.from(source.data, 'base64'));
+  const filePath = path.resolve(audioDir, source.fileName);
+  try {
+    return toArrayBuffer(await readFile(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new Error(`Audio file not found: ${filePath}`);
+    throw error;
+  }
+};
+
+// Decodes every source a clip uses, at the mix rate
+const loadSources = async (project: ProjectFile, audioDir: string): Promise<Map<string, MixSource>> => {
+  const used = new Set(project.clips.map(clip => clip.sourceId));
+  const sources = new Map<string, MixSource>();
+  for (const source of project.sources) {
+    if (!used.has(source.id)) continue;
+    try {
+      sources.set(source.id, await loadWavSource(await readSourceFile(source, audioDir), MIX_SAMPLE_RATE));
+    } catch (error) {
+      if (error instanceof WavFormatError) throw new Error(`${source.fileName}: ${error.message}`);
+      throw error;
+    }
+  }
+  return sources;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      settings: { type: 'string', short: 's' },
+      'audio-dir': { type: 'string', short: 'a' },
+      title: { type: 'string' },
+      artist: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1 || !values.output) throw new UsageError(USAGE);
+
+  const inputPath = positionals[0];
+  const project = parseArrangementFile(await readFile(inputPath, 'utf8'));
+  const settings = await readExportSettings(values.settings, values.output);
+  // Opus goes through WebCodecs, which Node does not have
+  if (settings.container === 'opus' && !(await isOpusEncodingSupported(settings.channels))) {
+    throw new UsageError('Opus cannot be encoded here. Render WAV or FLAC instead.');
+  }
+  const sources = await loadSources(project, values['audio-dir'] ?? path.dirname(inputPath));
+
+  let reported = -1;
+  const blob = await renderProject(project, sources, settings, { title: values.title ?? project.name, artist: values.artist }, {
+    onProgress: fraction => {
+      if (!process.stderr.isTTY) return;
+      const percent = Math.floor(fraction * 100);
+      if (percent === reported) return;
+      reported = percent;
+      process.stderr.write(`\rRendering ${percent}%`);
+    },
+  });
+  if (process.stderr.isTTY) process.stderr.write('\n');
+
+  await writeFile(values.output, new Uint8Array(await blob.arrayBuffer()));
+};
+
+main().catch(error => {
+  console.error(error instanceof UsageError ? error.message : `Error: ${error instanceof Error ? error.message : error}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { AI_PROVIDERS, AiProviderKind, AiSettings } from '../services/aiSettings';
+
+interface AiSettingsDialogProps {
+  initialSettings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onCancel: () => void;
+}
+
+const labelClass = 'text-[10px] uppercase font-bold text-slate-500 tracking-wider';
+const inputClass =
+  'bg-slate-950 border border-slate-700 text-white text-sm px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Which service analyses and transcribes audio, and the key to use for it
+export const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({ initialSettings, onSave, onCancel }) => {
+  const [settings, setSettings] = useState<AiSettings>(initialSettings);
+  const isOpenAi = settings.provider === 'openai';
+
+  const changeProvider = (provider: AiProviderKind) => {
+    const defaultModel = AI_PROVIDERS.find(p => p.value === provider)!.defaultModel;
+    setSettings(prev => ({ ...prev, provider, model: defaultModel }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl w-full max-w-md">
+        <h2 className="text-lg font-semibold text-white mb-1">AI settings</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          Analysis and transcription send rendered audio to this provider. The API key is kept for this browser
+          session only.
+        </p>
+
+        <div className="space-y-3 mb-6">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Provider</label>
+              <select
+                value={settings.provider}
+                onChange={(e) => changeProvider(e.target.value as AiProviderKind)}
+                className={inputClass}
+              >
+                {AI_PROVIDERS.map(provider => (
+                  <option key={provider.value} value={provider.value}>{provider.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Model</label>
+              <input
+                type="text"
+                value={settings.model}
+                onChange={(e) => setSettings(prev => ({ ...prev, model: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          {isOpenAi && (
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Server URL</label>
+              <input
+                type="url"
+                value={settings.baseUrl}
+                onChange={(e) => setSettings(prev => ({ ...prev, baseUrl: e.target.value }))}
+                placeholder="http://localhost:8000/v1"
+                className={inputClass}
+              />
+            </div>
+          )}
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>API key{isOpenAi && ' (optional for local servers)'}</label>
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => setSettings(prev => ({ ...prev, apiKey: e.target.value.trim() }))}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(settings)}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
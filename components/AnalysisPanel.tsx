@@ -0,0 +1,52 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { AudioAnalysis } from '../services/analysisRequests';
+import { formatTimecode } from '../services/timecode';
+
+interface AnalysisPanelProps {
+  label: string; // What was analysed
+  analysis: AudioAnalysis; // Segment times are on the timeline
+  onSeek: (time: number) => void;
+  onClose: () => void;
+}
+
+// Summary and segment list of the latest analysis; clicking a row moves the playhead there
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ label, analysis, onSeek, onClose }) => (
+  <div className="mt-6 bg-slate-950/50 border border-slate-800 rounded-xl p-4">
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="text-sm font-semibold text-white">
+        Analysis <span className="font-normal text-slate-500">— {label}</span>
+      </h3>
+      <button
+        onClick={onClose}
+        className="p-1 text-slate-500 hover:text-white hover:bg-slate-800 rounded transition-colors"
+        title="Clear analysis"
+      >
+        <X size={14} />
+      </button>
+    </div>
+    {analysis.summary && <p className="text-sm text-slate-300 mb-3">{analysis.summary}</p>}
+    {analysis.segments.length === 0 ? (
+      <p className="text-xs text-slate-500 italic">No segments were found.</p>
+    ) : (
+      <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-800 rounded-lg">
+        <table className="w-full text-xs">
+          <tbody>
+            {analysis.segments.map((segment, index) => (
+              <tr
+                key={index}
+                onClick={() => onSeek(segment.start)}
+                className="border-b border-slate-800 last:border-0 cursor-pointer hover:bg-slate-800/60"
+              >
+                <td className="px-2 py-1.5 align-top font-mono text-blue-400 whitespace-nowrap">{formatTimecode(segment.start)}</td>
+                <td className="px-2 py-1.5 align-top text-slate-200 whitespace-nowrap">{segment.speaker || '—'}</td>
+                <td className="px-2 py-1.5 align-top text-slate-400 whitespace-nowrap">{segment.mood}</td>
+                <td className="px-2 py-1.5 text-slate-300">{segment.transcript}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Sparkles, ChevronDown } from 'lucide-react';
+import { AnalysisScope } from '../services/audioAnalysis';
+
+interface AnalyzeMenuProps {
+  hasClips: boolean;
+  canAnalyzeClip: boolean; // Exactly one clip is selected
+  canAnalyzeRange: boolean; // A loop region has been drawn
+  selectedCount: number;
+  onAnalyze: (type: AnalysisScope['type']) => void;
+  onTranscribe: () => void;
+  providerLabel: string;
+  onOpenSettings: () => void;
+}
+
+// AI analysis of the selected clip, the loop region or everything, and
+// transcription of clips for subtitles
+export const AnalyzeMenu: React.FC<AnalyzeMenuProps> = ({
+  hasClips,
+  canAnalyzeClip,
+  canAnalyzeRange,
+  selectedCount,
+  onAnalyze,
+  onTranscribe,
+  providerLabel,
+  onOpenSettings,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const items: { type: AnalysisScope['type']; label: string; description: string; enabled: boolean }[] = [
+    { type: 'clip', label: 'Analyze selected clip', description: 'Select a single clip first', enabled: canAnalyzeClip },
+    { type: 'range', label: 'Analyze loop region', description: 'The mix between the loop markers', enabled: canAnalyzeRange },
+    { type: 'mix', label: 'Analyze full mix', description: 'Everything that is audible', enabled: true },
+  ];
+
+  return (
+    <div className="relative flex items-center">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={!hasClips}
+        className="flex items-center gap-0.5 p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        title="Analyze speakers, transcript and mood"
+      >
+        <Sparkles size={16} />
+        <ChevronDown size={12} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl py-2 z-10">
+          {items.map(item => (
+            <button
+              key={item.type}
+              onClick={() => {
+                setIsOpen(false);
+                onAnalyze(item.type);
+              }}
+              disabled={!item.enabled}
+              className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <div className="text-sm text-slate-200">{item.label}</div>
+              <div className="text-xs text-slate-500">{item.description}</div>
+            </button>
+          ))}
+          <div className="my-1 border-t border-slate-800" />
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onTranscribe();
+            }}
+            className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors"
+          >
+            <div className="text-sm text-slate-200">
+              {selectedCount > 0 ? `Transcribe ${selectedCount === 1 ? 'selected clip' : `${selectedCount} selected clips`}` : 'Transcribe all clips'}
+            </div>
+            <div className="text-xs text-slate-500">Timed phrases for SRT and WebVTT subtitles</div>
+          </button>
+          <div className="my-1 border-t border-slate-800" />
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              onOpenSettings();
+            }}
+            className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors"
+          >
+            <div className="text-sm text-slate-200">AI settings</div>
+            <div className="text-xs text-slate-500">Using {providerLabel}</div>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ArrangeMode, ArrangeSettings } from '../services/clipEditing';
+
+interface ArrangeDialogProps {
+  initialSettings: ArrangeSettings;
+  clipCount: number;
+  onApply: (settings: ArrangeSettings) => void;
+  onCancel: () => void;
+}
+
+const labelClass = 'text-[10px] uppercase font-bold text-slate-500 tracking-wider';
+const inputClass =
+  'bg-slate-950 border border-slate-700 text-white text-sm px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const ARRANGE_MODES: { value: ArrangeMode; label: string }[] = [
+  { value: 'gap', label: 'Gap' },
+  { value: 'crossfade', label: 'Crossfade' },
+];
+
+// Spacing for laying the selected clips out back to back
+export const ArrangeDialog: React.FC<ArrangeDialogProps> = ({ initialSettings, clipCount, onApply, onCancel }) => {
+  const [settings, setSettings] = useState<ArrangeSettings>(initialSettings);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl w-full max-w-sm">
+        <h2 className="text-lg font-semibold text-white mb-1">Auto-arrange</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          Lays the {clipCount} selected clips out back to back in their current order, starting where the first one is.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Between clips</label>
+            <select
+              value={settings.mode}
+              onChange={(e) => setSettings(prev => ({ ...prev, mode: e.target.value as ArrangeMode }))}
+              className={inputClass}
+            >
+              {ARRANGE_MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Length (s)</label>
+            <input
+              type="number"
+              min="0"
+              max="10"
+              step="0.05"
+              value={settings.seconds}
+              onChange={(e) => setSettings(prev => ({ ...prev, seconds: Math.max(0, Math.min(10, parseFloat(e.target.value) || 0)) }))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(settings)}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors"
+          >
+            Arrange
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
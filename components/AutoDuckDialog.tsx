@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Lane } from '../types';
+import { DEFAULT_DUCK_SETTINGS, DuckSettings } from '../services/autoDuck';
+
+interface AutoDuckDialogProps {
+  lanes: Lane[];
+  onApply: (voiceLaneId: string, musicLaneId: string, settings: DuckSettings) => void;
+  onCancel: () => void;
+}
+
+const labelClass = 'text-[10px] uppercase font-bold text-slate-500 tracking-wider';
+const inputClass =
+  'bg-slate-950 border border-slate-700 text-white text-sm px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const SLIDERS: { key: keyof DuckSettings; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'threshold', label: 'Voice threshold', min: -60, max: -10, step: 1, unit: 'dB' },
+  { key: 'depth', label: 'Depth', min: 3, max: 30, step: 1, unit: 'dB' },
+  { key: 'attack', label: 'Attack', min: 10, max: 1000, step: 10, unit: 'ms' },
+  { key: 'release', label: 'Release', min: 50, max: 3000, step: 50, unit: 'ms' },
+];
+
+// Picks the lanes and timing for automatic ducking of music under a voice
+export const AutoDuckDialog: React.FC<AutoDuckDialogProps> = ({ lanes, onApply, onCancel }) => {
+  const [voiceLaneId, setVoiceLaneId] = useState(lanes[0]?.id ?? '');
+  const [musicLaneId, setMusicLaneId] = useState(lanes[1]?.id ?? '');
+  const [settings, setSettings] = useState<DuckSettings>(DEFAULT_DUCK_SETTINGS);
+
+  const canApply = voiceLaneId !== '' && musicLaneId !== '' && voiceLaneId !== musicLaneId;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl w-full max-w-md">
+        <h2 className="text-lg font-semibold text-white mb-1">Auto-duck music</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          Lowers the music lane wherever the voice lane is speaking. The result replaces the music clips' volume
+          envelopes and can be edited by hand afterwards.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Voice lane</label>
+            <select value={voiceLaneId} onChange={(e) => setVoiceLaneId(e.target.value)} className={inputClass}>
+              {lanes.map(lane => (
+                <option key={lane.id} value={lane.id}>{lane.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Music lane</label>
+            <select value={musicLaneId} onChange={(e) => setMusicLaneId(e.target.value)} className={inputClass}>
+              <option value="">Select...</option>
+              {lanes.map(lane => (
+                <option key={lane.id} value={lane.id}>{lane.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2 mb-6">
+          {SLIDERS.map(({ key, label, min, max, step, unit }) => (
+            <div key={key} className="flex flex-col">
+              <label className={labelClass}>
+                {label} <span className="font-mono normal-case text-slate-400">{settings[key]} {unit}</span>
+              </label>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings[key]}
+                onChange={(e) => setSettings(prev => ({ ...prev, [key]: parseFloat(e.target.value) }))}
+                className="w-full accent-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+
+        {voiceLaneId !== '' && voiceLaneId === musicLaneId && (
+          <p className="text-xs text-amber-400 mb-4">Voice and music have to be on different lanes.</p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(voiceLaneId, musicLaneId, settings)}
+            disabled={!canApply}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50 disabled:hover:bg-blue-600"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
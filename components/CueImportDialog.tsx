@@ -0,0 +1,79 @@
+import React, { useMemo, useState } from 'react';
+import { Arrangement } from '../types';
+import { CUE_MAPPINGS, Cue, CueAssignment, CueMapping, assignCues } from '../services/cues';
+import { formatTimecode } from '../services/timecode';
+
+interface CueImportDialogProps {
+  fileName: string;
+  cues: Cue[];
+  arrangement: Arrangement;
+  onApply: (assignments: CueAssignment[]) => void;
+  onCancel: () => void;
+}
+
+const labelClass = 'text-[10px] uppercase font-bold text-slate-500 tracking-wider';
+
+// Previews which clip each imported cue places before anything moves
+export const CueImportDialog: React.FC<CueImportDialogProps> = ({ fileName, cues, arrangement, onApply, onCancel }) => {
+  const [mapping, setMapping] = useState<CueMapping>('name');
+  const assignments = useMemo(() => assignCues(cues, arrangement, mapping), [cues, arrangement, mapping]);
+  const matched = assignments.filter(a => a.trackId !== null).length;
+  const clipName = (id: string | null) => arrangement.tracks.find(t => t.id === id)?.fileName;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl w-full max-w-lg">
+        <h2 className="text-lg font-semibold text-white mb-1">Import cues</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          "{fileName}" has {cues.length} cue{cues.length === 1 ? '' : 's'}. Each matched clip moves to its cue's start time.
+        </p>
+
+        <div className="flex items-center gap-3 mb-3">
+          <label className={labelClass}>Match clips</label>
+          <select
+            value={mapping}
+            onChange={(e) => setMapping(e.target.value as CueMapping)}
+            className="bg-slate-950 border border-slate-700 text-white text-sm px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CUE_MAPPINGS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <span className="ml-auto text-xs text-slate-500">{matched} of {cues.length} matched</span>
+        </div>
+
+        <div className="max-h-64 overflow-y-auto custom-scrollbar mb-6 border border-slate-800 rounded-lg">
+          <table className="w-full text-xs">
+            <tbody>
+              {assignments.map(({ cue, trackId }, index) => (
+                <tr key={index} className="border-b border-slate-800 last:border-0">
+                  <td className="px-2 py-1.5 font-mono text-blue-400 whitespace-nowrap">{formatTimecode(cue.start)}</td>
+                  <td className="px-2 py-1.5 text-slate-300 truncate max-w-[10rem]" title={cue.label}>{cue.label || '—'}</td>
+                  <td className={`px-2 py-1.5 truncate max-w-[10rem] ${trackId ? 'text-slate-200' : 'text-slate-600 italic'}`}>
+                    {clipName(trackId) ?? 'No clip'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(assignments)}
+            disabled={matched === 0}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50 disabled:hover:bg-blue-600"
+          >
+            Place {matched} clip{matched === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
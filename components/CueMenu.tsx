@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { ListVideo, ChevronDown } from 'lucide-react';
+import { CUE_FILE_ACCEPT } from '../services/cues';
+
+export type CueExportFormat = 'csv' | 'cue' | 'vtt' | 'srt' | 'captions';
+
+interface CueMenuProps {
+  hasClips: boolean;
+  hasTranscript: boolean; // Any clip has been transcribed
+  onImport: (file: File) => void;
+  onExport: (format: CueExportFormat) => void;
+}
+
+const EXPORT_ITEMS: { format: CueExportFormat; label: string; description: string }[] = [
+  { format: 'csv', label: 'Export CSV cue sheet', description: 'Start, end and name of every clip' },
+  { format: 'cue', label: 'Export CUE sheet', description: 'Track index for the exported WAV' },
+  { format: 'vtt', label: 'Export WebVTT chapters', description: 'Chapters for video players and editors' },
+];
+
+const SUBTITLE_ITEMS: { format: CueExportFormat; label: string; description: string }[] = [
+  { format: 'srt', label: 'Export SRT subtitles', description: 'Clip transcripts at their timeline positions' },
+  { format: 'captions', label: 'Export WebVTT subtitles', description: 'Clip transcripts at their timeline positions' },
+];
+
+// Importing cue lists to place clips, and exporting clip boundaries
+export const CueMenu: React.FC<CueMenuProps> = ({ hasClips, hasTranscript, onImport, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="relative flex items-center">
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept={CUE_FILE_ACCEPT}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={!hasClips}
+        className="flex items-center gap-0.5 p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        title="Cues and markers"
+      >
+        <ListVideo size={16} />
+        <ChevronDown size={12} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl py-2 z-10">
+          <button
+            onClick={() => {
+              setIsOpen(false);
+              inputRef.current?.click();
+            }}
+            className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors"
+          >
+            <div className="text-sm text-slate-200">Import cue list</div>
+            <div className="text-xs text-slate-500">Place clips from an SRT, WebVTT or CSV file</div>
+          </button>
+          <div className="my-1 border-t border-slate-800" />
+          {EXPORT_ITEMS.map(item => (
+            <button
+              key={item.format}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(item.format);
+              }}
+              className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors"
+            >
+              <div className="text-sm text-slate-200">{item.label}</div>
+              <div className="text-xs text-slate-500">{item.description}</div>
+            </button>
+          ))}
+          <div className="my-1 border-t border-slate-800" />
+          {SUBTITLE_ITEMS.map(item => (
+            <button
+              key={item.format}
+              onClick={() => {
+                setIsOpen(false);
+                onExport(item.format);
+              }}
+              disabled={!hasTranscript}
+              className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+            >
+              <div className="text-sm text-slate-200">{item.label}</div>
+              <div className="text-xs text-slate-500">{hasTranscript ? item.description : 'Transcribe clips first'}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React from 'react';
+import { ChevronUp, ChevronDown, Power, Plus, X } from 'lucide-react';
+import { Effect, EffectType, EqBand, EqBandType } from '../types';
+import {
+  EFFECT_PARAMS,
+  EFFECT_TYPES,
+  EQ_BAND_TYPES,
+  MAX_EQ_BANDS,
+  createEffect,
+  createEqBand,
+} from '../services/effects';
+
+interface EffectsChainProps {
+  effects: Effect[];
+  onChange: (effects: Effect[]) => void;
+}
+
+const labelClass = 'text-[10px] uppercase font-bold text-slate-500 tracking-wider';
+const numberClass =
+  'w-full bg-slate-900 border border-slate-700 text-white text-xs px-1.5 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatParam = (value: number, unit: string) =>
+  unit === '' ? `${Math.round(value * 100)}%` : `${Number(value.toFixed(1))}${unit === ':1' ? '' : ' '}${unit}`;
+
+const EqBands: React.FC<{ bands: EqBand[]; onChange: (bands: EqBand[]) => void }> = ({ bands, onChange }) => {
+  const updateBand = (index: number, changes: Partial<EqBand>) =>
+    onChange(bands.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+
+  return (
+    <div className="space-y-1.5">
+      {bands.map((band, index) => {
+        const hasGain = band.type !== 'highpass' && band.type !== 'lowpass';
+        return (
+          <div key={index} className="grid grid-cols-[6.5rem_1fr_1fr_1fr_auto] items-center gap-1.5">
+            <select
+              value={band.type}
+              onChange={(e) => updateBand(index, { type: e.target.value as EqBandType })}
+              className={numberClass}
+            >
+              {EQ_BAND_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="20"
+              max="20000"
+              step="1"
+              value={band.frequency}
+              onChange={(e) => updateBand(index, { frequency: Math.max(20, Math.min(20000, parseFloat(e.target.value) || 20)) })}
+              className={numberClass}
+              title="Frequency (Hz)"
+            />
+            <input
+              type="number"
+              min="-24"
+              max="24"
+              step="0.5"
+              value={band.gain}
+              disabled={!hasGain}
+              onChange={(e) => updateBand(index, { gain: Math.max(-24, Math.min(24, parseFloat(e.target.value) || 0)) })}
+              className={`${numberClass} disabled:opacity-40`}
+              title="Gain (dB)"
+            />
+            <input
+              type="number"
+              min="0.1"
+              max="10"
+              step="0.1"
+              value={band.q}
+              onChange={(e) => updateBand(index, { q: Math.max(0.1, Math.min(10, parseFloat(e.target.value) || 0.1)) })}
+              className={numberClass}
+              title="Q"
+            />
+            <button
+              onClick={() => onChange(bands.filter((_, i) => i !== index))}
+              className="p-1 text-slate-500 hover:text-red-400 rounded transition-colors"
+              title="Remove band"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-slate-500">Type · Hz · dB · Q</span>
+        <button
+          onClick={() => onChange([...bands, createEqBand()])}
+          disabled={bands.length >= MAX_EQ_BANDS}
+          className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40 transition-colors"
+        >
+          <Plus size={12} />
+          Band
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Ordered insert effects of a clip: add, bypass, reorder, remove and tweak
+export const EffectsChain: React.FC<EffectsChainProps> = ({ effects, onChange }) => {
+  const updateEffect = (id: string, changes: Partial<Effect>) =>
+    onChange(effects.map(effect => (effect.id === id ? ({ ...effect, ...changes } as Effect) : effect)));
+
+  const moveEffect = (index: number, offset: number) => {
+    const next = [...effects];
+    const [effect] = next.splice(index, 1);
+    next.splice(index + offset, 0, effect);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <label className={labelClass}>Effects</label>
+        <select
+          value=""
+          onChange={(e) => {
+            if (e.target.value) onChange([...effects, createEffect(e.target.value as EffectType)]);
+          }}
+          className="bg-slate-900 border border-slate-700 text-slate-300 text-xs px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Add effect...</option>
+          {EFFECT_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {effects.length > 0 && (
+        <div className="grid gap-2 sm:grid-cols-2">
+          {effects.map((effect, index) => (
+            <div
+              key={effect.id}
+              className={`bg-slate-900/60 border border-slate-700 rounded-lg p-2.5 space-y-2 ${effect.bypass ? 'opacity-50' : ''}`}
+            >
+              <div className="flex items-center gap-1">
+                <span className="text-xs font-medium text-slate-200 mr-auto">
+                  {index + 1}. {EFFECT_TYPES.find(type => type.value === effect.type)?.label}
+                </span>
+                <button
+                  onClick={() => updateEffect(effect.id, { bypass: !effect.bypass })}
+                  className={`p-1 rounded transition-colors ${effect.bypass ? 'text-slate-500 hover:text-slate-300' : 'text-emerald-400 hover:text-emerald-300'}`}
+                  title={effect.bypass ? 'Enable' : 'Bypass'}
+                >
+                  <Power size={12} />
+                </button>
+                <button
+                  onClick={() => moveEffect(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 text-slate-500 hover:text-slate-300 rounded transition-colors disabled:opacity-30"
+                  title="Move earlier in the chain"
+                >
+                  <ChevronUp size={12} />
+                </button>
+                <button
+                  onClick={() => moveEffect(index, 1)}
+                  disabled={index === effects.length - 1}
+                  className="p-1 text-slate-500 hover:text-slate-300 rounded transition-colors disabled:opacity-30"
+                  title="Move later in the chain"
+                >
+                  <ChevronDown size={12} />
+                </button>
+                <button
+                  onClick={() => onChange(effects.filter(e => e.id !== effect.id))}
+                  className="p-1 text-slate-500 hover:text-red-400 rounded transition-colors"
+                  title="Remove effect"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+
+              {effect.type === 'eq' ? (
+                <EqBands bands={effect.bands} onChange={(bands) => updateEffect(effect.id, { bands })} />
+              ) : (
+                <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+                  {EFFECT_PARAMS[effect.type].map(param => {
+                    const value = (effect as unknown as Record<string, number>)[param.key];
+                    return (
+                      <div key={param.key} className="flex flex-col">
+                        <label className={labelClass}>
+                          {param.label} <span className="font-mono normal-case text-slate-400">{formatParam(value, param.unit)}</span>
+                        </label>
+                        <input
+                          type="range"
+                          min={param.min}
+                          max={param.max}
+                          step={param.step}
+                          value={value}
+                          onChange={(e) => updateEffect(effect.id, { [param.key]: parseFloat(e.target.value) } as Partial<Effect>)}
+                          className="w-full accent-blue-500"
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React from 'react';
+import { AutomationPoint } from '../types';
+import {
+  AUTOMATION_MAX_DB,
+  AUTOMATION_MIN_DB,
+  clampAutomationDb,
+  getEnvelopeDb,
+  insertEnvelopePoint,
+} from '../services/automation';
+
+interface EnvelopeEditorProps {
+  points: AutomationPoint[];
+  trimStart: number;
+  trimEnd: number;
+  width: number; // Clip width in pixels
+  height: number;
+  editable: boolean;
+  onChange: (points: AutomationPoint[]) => void;
+}
+
+interface PointDrag {
+  index: number;
+  points: AutomationPoint[]; // The envelope as it was when the drag began
+}
+
+const HANDLE_RADIUS = 3.5;
+
+// Volume envelope drawn over a clip. In edit mode, clicking adds a point,
+// dragging moves one and double-clicking removes it.
+export const EnvelopeEditor: React.FC<EnvelopeEditorProps> = ({
+  points,
+  trimStart,
+  trimEnd,
+  width,
+  height,
+  editable,
+  onChange,
+}) => {
+  const svgRef = React.useRef<SVGSVGElement>(null);
+  const dragRef = React.useRef<PointDrag | null>(null);
+
+  const length = trimEnd - trimStart;
+  const xOf = (time: number) => ((time - trimStart) / length) * width;
+  const yOf = (db: number) => ((AUTOMATION_MAX_DB - db) / (AUTOMATION_MAX_DB - AUTOMATION_MIN_DB)) * height;
+
+  // Source time and level under the pointer
+  const pointAt = (event: React.PointerEvent): AutomationPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.max(0, Math.min(width, event.clientX - rect.left));
+    const y = Math.max(0, Math.min(height, event.clientY - rect.top));
+    return {
+      time: trimStart + (x / width) * length,
+      gain: clampAutomationDb(AUTOMATION_MAX_DB - (y / height) * (AUTOMATION_MAX_DB - AUTOMATION_MIN_DB)),
+    };
+  };
+
+  const beginDrag = (event: React.PointerEvent<SVGElement>, index: number, envelope: AutomationPoint[]) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { index, points: envelope };
+  };
+
+  const addPoint = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    // A new point starts on the line, so clicking never makes the level jump
+    const { time } = pointAt(event);
+    const { points: next, index } = insertEnvelopePoint(points, { time, gain: getEnvelopeDb(points, time) });
+    onChange(next);
+    beginDrag(event, index, next);
+  };
+
+  const grabPoint = (event: React.PointerEvent<SVGCircleElement>, index: number) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    beginDrag(event, index, points);
+  };
+
+  // A point moves freely in level but stays between its neighbours in time
+  const updateDrag = (event: React.PointerEvent<SVGElement>) => {
+    const drag: PointDrag | null = dragRef.current;
+    if (!drag) return;
+    const target = pointAt(event);
+    const before = drag.points[drag.index - 1];
+    const after = drag.points[drag.index + 1];
+    const time = Math.max(before ? before.time : trimStart, Math.min(after ? after.time : trimEnd, target.time));
+    onChange(drag.points.map((point, i) => (i === drag.index ? { time, gain: target.gain } : point)));
+  };
+
+  const endDrag = (event: React.PointerEvent<SVGElement>) => {
+    if (!dragRef.current) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    dragRef.current = null;
+  };
+
+  if (!editable && points.length === 0) return null;
+
+  // The level before the first point and after the last is held flat
+  const first = getEnvelopeDb(points, trimStart);
+  const last = getEnvelopeDb(points, trimEnd);
+  const visible = points.filter(point => point.time > trimStart && point.time < trimEnd);
+  const line = [
+    `0,${yOf(first).toFixed(1)}`,
+    ...visible.map(point => `${xOf(point.time).toFixed(1)},${yOf(point.gain).toFixed(1)}`),
+    `${width.toFixed(1)},${yOf(last).toFixed(1)}`,
+  ].join(' ');
+
+  return (
+    <svg
+      ref={svgRef}
+      className={`absolute inset-0 ${editable ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      width={width}
+      height={height}
+      onPointerDown={editable ? addPoint : undefined}
+      onPointerMove={updateDrag}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      <polyline points={line} fill="none" stroke="#fbbf24" strokeWidth={1.5} opacity={editable ? 1 : 0.6} />
+      {editable && points.map((point, index) => {
+        if (point.time < trimStart || point.time > trimEnd) return null;
+        return (
+          <circle
+            key={index}
+            cx={xOf(point.time)}
+            cy={yOf(point.gain)}
+            r={HANDLE_RADIUS}
+            className="fill-amber-300 stroke-slate-900 cursor-move"
+            onPointerDown={(e) => grabPoint(e, index)}
+            onPointerMove={updateDrag}
+            onPointerUp={endDrag}
+            onPointerCancel={endDrag}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              onChange(points.filter((_, i) => i !== index));
+            }}
+          >
+            <title>{`${point.gain.toFixed(1)} dB`}</title>
+          </circle>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,380 @@
+import React, { useEffect, useState } from 'react';
+import { Download, AlertTriangle } from 'lucide-react';
+import {
+  ExportSettings,
+  EXPORT_CONTAINERS,
+  EXPORT_FORMATS,
+  EXPORT_SAMPLE_RATES,
+  OPUS_BITRATES,
+} from '../services/exportAudio';
+import { FLAC_COMPRESSION_LEVELS } from '../services/flacEncoder';
+import { isOpusEncodingSupported } from '../services/oggOpusEncoder';
+import { AudioTags } from '../services/audioTags';
+import {
+  LIMITER_CEILINGS,
+  LOUDNESS_TARGETS,
+  MasterAnalysis,
+  MasterSettings,
+  NormalizeMode,
+} from '../services/masterBus';
+import { LoudnessStats } from '../services/loudness';
+import { RenderTask } from '../services/renderClient';
+import { isAbortError } from '../services/task';
+
+interface ExportDialogProps {
+  initialSettings: ExportSettings;
+  initialTags: AudioTags;
+  onAnalyze: (master: MasterSettings) => RenderTask<MasterAnalysis> | null;
+  onExport: (settings: ExportSettings, tags: AudioTags) => void;
+  onCancel: () => void;
+}
+
+const PEAK_TARGETS = [0, -0.3, -1, -3, -6];
+
+// Master changes are measured once the settings have been still this long
+const ANALYZE_DELAY_MS = 300;
+
+const formatDb = (value: number, unit: string) =>
+  Number.isFinite(value) ? `${value > 0 ? '+' : ''}${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
+
+const StatsRow: React.FC<{ label: string; stats: LoudnessStats }> = ({ label, stats }) => (
+  <tr>
+    <td className="pr-3 text-slate-500">{label}</td>
+    <td className="pr-3">{formatDb(stats.integrated, 'LUFS')}</td>
+    <td className={`pr-3 ${stats.samplePeak > 0 ? 'text-red-400' : ''}`}>{formatDb(stats.samplePeak, 'dBFS')}</td>
+    <td className={stats.truePeak > 0 ? 'text-red-400' : ''}>{formatDb(stats.truePeak, 'dBTP')}</td>
+  </tr>
+);
+
+const labelClass = 'text-[10px] uppercase font-bold text-slate-500 tracking-wider';
+const inputClass =
+  'bg-slate-950 border border-slate-700 text-white text-sm px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ initialSettings, initialTags, onAnalyze, onExport, onCancel }) => {
+  const [settings, setSettings] = useState<ExportSettings>(initialSettings);
+  const [tags, setTags] = useState<AudioTags>(initialTags);
+  const [opusSupported, setOpusSupported] = useState<boolean | null>(null);
+  const [analysis, setAnalysis] = useState<MasterAnalysis | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+
+  // Re-measure whenever the master settings change; a newer request cancels
+  // the one still running
+  useEffect(() => {
+    let task: RenderTask<MasterAnalysis> | null = null;
+    setIsAnalyzing(true);
+    const timer = window.setTimeout(() => {
+      task = onAnalyze(settings.master);
+      if (!task) {
+        setIsAnalyzing(false);
+        return;
+      }
+      task.promise
+        .then(result => {
+          setAnalysis(result);
+          setIsAnalyzing(false);
+        })
+        .catch(error => {
+          if (isAbortError(error)) return;
+          console.error("Error analyzing mix:", error);
+          setIsAnalyzing(false);
+        });
+    }, ANALYZE_DELAY_MS);
+    return () => {
+      window.clearTimeout(timer);
+      task?.cancel();
+    };
+  }, [settings.master]);
+
+  useEffect(() => {
+    let cancelled = false;
+    isOpusEncodingSupported(settings.channels).then(supported => {
+      if (!cancelled) setOpusSupported(supported);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [settings.channels]);
+
+  const isWav = settings.container === 'wav';
+  const isFlac = settings.container === 'flac';
+  const isOpus = settings.container === 'opus';
+  const formats = isFlac ? EXPORT_FORMATS.filter(format => format.value !== 'float32') : EXPORT_FORMATS;
+  const canDither = !isOpus && settings.format !== 'float32';
+  const opusUnavailable = isOpus && opusSupported === false;
+
+  const update = (changes: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+  const updateMaster = (changes: Partial<MasterSettings>) =>
+    setSettings(prev => ({ ...prev, master: { ...prev.master, ...changes } }));
+
+  // Float WAV keeps overs in the file, but they still clip on playback
+  const output = analysis?.output;
+  const isFloat = isWav && settings.format === 'float32';
+  const clipWarning = !output || isAnalyzing
+    ? null
+    : output.samplePeak > 0 && !isFloat
+      ? `Peaks reach ${formatDb(output.samplePeak, 'dBFS')} and will clip in the exported file. Turn on the limiter or lower the level.`
+      : output.truePeak > 0
+        ? `True peak reaches ${formatDb(output.truePeak, 'dBTP')}, which can distort on playback${isOpus ? ' and after Opus encoding' : ''}. Consider the limiter.`
+        : null;
+
+  const changeContainer = (container: ExportSettings['container']) => {
+    // FLAC has no float samples
+    const format = container === 'flac' && settings.format === 'float32' ? 'pcm24' : settings.format;
+    update({ container, format });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl w-full max-w-md space-y-5">
+        <h2 className="text-lg font-semibold text-white">Export Mix</h2>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Format</label>
+            <select
+              value={settings.container}
+              onChange={(e) => changeContainer(e.target.value as ExportSettings['container'])}
+              className={inputClass}
+            >
+              {EXPORT_CONTAINERS.map(container => (
+                <option key={container.value} value={container.value}>{container.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {isOpus ? (
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Bitrate</label>
+              <select
+                value={settings.opusBitrate}
+                onChange={(e) => update({ opusBitrate: parseInt(e.target.value, 10) })}
+                className={inputClass}
+              >
+                {OPUS_BITRATES.map(bitrate => (
+                  <option key={bitrate} value={bitrate}>{bitrate / 1000} kbps</option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Bit Depth</label>
+              <select
+                value={settings.format}
+                onChange={(e) => update({ format: e.target.value as ExportSettings['format'] })}
+                className={inputClass}
+              >
+                {formats.map(format => (
+                  <option key={format.value} value={format.value}>{format.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Sample Rate</label>
+            <select
+              value={isOpus ? 48000 : settings.sampleRate}
+              disabled={isOpus}
+              onChange={(e) => update({ sampleRate: parseInt(e.target.value, 10) })}
+              className={inputClass}
+            >
+              {EXPORT_SAMPLE_RATES.map(rate => (
+                <option key={rate} value={rate}>{(rate / 1000).toFixed(1)} kHz</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Channels</label>
+            <select
+              value={settings.channels}
+              onChange={(e) => update({ channels: parseInt(e.target.value, 10) as 1 | 2 })}
+              className={inputClass}
+            >
+              <option value={2}>Stereo</option>
+              <option value={1}>Mono</option>
+            </select>
+          </div>
+
+          {isFlac && (
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Compression</label>
+              <select
+                value={settings.flacLevel}
+                onChange={(e) => update({ flacLevel: parseInt(e.target.value, 10) })}
+                className={inputClass}
+              >
+                {FLAC_COMPRESSION_LEVELS.map(level => (
+                  <option key={level} value={level}>
+                    Level {level}{level === 0 ? ' (fastest)' : level === 8 ? ' (smallest)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {(isWav || isFlac) && (
+            <label className={`flex items-center gap-2 mt-5 text-sm select-none ${canDither ? 'text-slate-300 cursor-pointer' : 'text-slate-600'}`}>
+              <input
+                type="checkbox"
+                checked={settings.dither && canDither}
+                disabled={!canDither}
+                onChange={(e) => update({ dither: e.target.checked })}
+                className="accent-blue-500"
+              />
+              TPDF dither
+            </label>
+          )}
+
+          {isWav && (
+            <label className="flex items-center gap-2 mt-5 text-sm text-slate-300 cursor-pointer select-none" title="Cue points with labels at the start of every clip">
+              <input
+                type="checkbox"
+                checked={settings.embedMarkers}
+                onChange={(e) => update({ embedMarkers: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Clip markers
+            </label>
+          )}
+        </div>
+
+        {/* Master section */}
+        <div className="grid grid-cols-2 gap-4 pt-4 border-t border-slate-800">
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Normalize</label>
+            <select
+              value={settings.master.normalize}
+              onChange={(e) => updateMaster({ normalize: e.target.value as NormalizeMode })}
+              className={inputClass}
+            >
+              <option value="off">Off</option>
+              <option value="peak">Peak</option>
+              <option value="loudness">Loudness</option>
+            </select>
+          </div>
+
+          {settings.master.normalize === 'peak' && (
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Peak Target</label>
+              <select
+                value={settings.master.peakTarget}
+                onChange={(e) => updateMaster({ peakTarget: parseFloat(e.target.value) })}
+                className={inputClass}
+              >
+                {PEAK_TARGETS.map(target => (
+                  <option key={target} value={target}>{target.toFixed(1)} dBFS</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {settings.master.normalize === 'loudness' && (
+            <div className="flex flex-col gap-1">
+              <label className={labelClass}>Loudness Target</label>
+              <select
+                value={settings.master.loudnessTarget}
+                onChange={(e) => updateMaster({ loudnessTarget: parseFloat(e.target.value) })}
+                className={inputClass}
+              >
+                {LOUDNESS_TARGETS.map(target => (
+                  <option key={target.value} value={target.value}>{target.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {settings.master.normalize === 'off' && <div />}
+
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer select-none">
+            <input
+              type="checkbox"
+              checked={settings.master.limiter}
+              onChange={(e) => updateMaster({ limiter: e.target.checked })}
+              className="accent-blue-500"
+            />
+            True-peak limiter
+          </label>
+
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Ceiling</label>
+            <select
+              value={settings.master.ceiling}
+              disabled={!settings.master.limiter}
+              onChange={(e) => updateMaster({ ceiling: parseFloat(e.target.value) })}
+              className={inputClass}
+            >
+              {LIMITER_CEILINGS.map(ceiling => (
+                <option key={ceiling} value={ceiling}>{ceiling.toFixed(1)} dBTP</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="col-span-2 text-xs font-mono text-slate-300">
+            {analysis ? (
+              <table className={isAnalyzing ? 'opacity-50' : ''}>
+                <tbody>
+                  <StatsRow label="Mix" stats={analysis.input} />
+                  <StatsRow label="Export" stats={analysis.output} />
+                </tbody>
+              </table>
+            ) : (
+              <span className="text-slate-500">{isAnalyzing ? 'Measuring loudness...' : 'Loudness unavailable'}</span>
+            )}
+          </div>
+
+          {clipWarning && (
+            <p className="col-span-2 flex items-start gap-2 text-xs text-amber-400">
+              <AlertTriangle size={14} className="shrink-0 mt-px" />
+              {clipWarning}
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 pt-4 border-t border-slate-800">
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Title</label>
+            <input
+              type="text"
+              value={tags.title ?? ''}
+              onChange={(e) => setTags(prev => ({ ...prev, title: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label className={labelClass}>Artist</label>
+            <input
+              type="text"
+              value={tags.artist ?? ''}
+              onChange={(e) => setTags(prev => ({ ...prev, artist: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {opusUnavailable && (
+          <p className="text-xs text-amber-400">
+            This browser cannot encode Opus. Use WAV or FLAC, or export from a browser with WebCodecs audio support.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-3 pt-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(settings, tags)}
+            disabled={opusUnavailable}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white rounded-lg transition-colors"
+          >
+            <Download size={16} />
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
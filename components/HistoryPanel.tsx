@@ -0,0 +1,31 @@
+import React from 'react';
+import { History } from '../services/history';
+
+interface HistoryPanelProps {
+  history: History<unknown>;
+  onJump: (index: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump }) => {
+  return (
+    <div className="w-64 max-h-80 overflow-y-auto custom-scrollbar bg-slate-900 border border-slate-700 rounded-xl shadow-2xl py-2">
+      <h3 className="px-4 pb-2 text-[10px] uppercase font-bold text-slate-500 tracking-wider">History</h3>
+      {/* Newest first, like an edit list */}
+      {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => {
+        const isCurrent = index === history.index;
+        const isUndone = index > history.index;
+        return (
+          <button
+            key={index}
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-4 py-1.5 text-sm transition-colors hover:bg-slate-800 ${
+              isCurrent ? 'text-blue-400 font-medium bg-blue-900/20' : isUndone ? 'text-slate-600 italic' : 'text-slate-300'
+            }`}
+          >
+            {entry.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { METER_FLOOR_DB, MeterReading } from '../services/meters';
+
+interface LevelMeterProps {
+  reading: MeterReading | null; // null while stopped
+  height?: number; // Height of each channel bar in pixels
+  showScale?: boolean;
+  onResetClip: () => void;
+}
+
+const SCALE_MARKS = [-48, -36, -24, -12, -6, -3, 0];
+
+// Green up to -12 dB, amber up to -3 dB, red above
+const METER_GRADIENT = `linear-gradient(to right, #10b981 0%, #10b981 ${((-12 - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100}%, #f59e0b ${((-3 - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100}%, #ef4444 100%)`;
+
+const toPercent = (db: number) => Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+
+const formatPeak = (db: number) => (db <= METER_FLOOR_DB ? '-∞' : db.toFixed(1));
+
+// Stereo level meter: RMS as the solid bar, peak as the faint bar in front of
+// it, a peak hold tick and a clip light per channel. Clicking a clip light
+// clears every clip light.
+export const LevelMeter: React.FC<LevelMeterProps> = ({ reading, height = 6, showScale = false, onResetClip }) => {
+  const maxHold = reading ? Math.max(...reading.hold) : METER_FLOOR_DB;
+
+  return (
+    <div className="flex items-start gap-2">
+      <div className="flex-1 min-w-0 space-y-0.5">
+        {[0, 1].map(channel => {
+          const clipped = reading?.clipped[channel] ?? false;
+          return (
+            <div key={channel} className="flex items-center gap-1">
+              <div className="relative flex-1 bg-slate-900 rounded-sm overflow-hidden" style={{ height }}>
+                {reading && (
+                  <>
+                    {/* The gradient is stretched to the full meter so colours stay tied to levels */}
+                    <div
+                      className="absolute inset-y-0 left-0 opacity-40"
+                      style={{ width: `${toPercent(reading.peak[channel])}%`, background: METER_GRADIENT, backgroundSize: `${10000 / Math.max(1, toPercent(reading.peak[channel]))}% 100%` }}
+                    />
+                    <div
+                      className="absolute inset-y-0 left-0"
+                      style={{ width: `${toPercent(reading.rms[channel])}%`, background: METER_GRADIENT, backgroundSize: `${10000 / Math.max(1, toPercent(reading.rms[channel]))}% 100%` }}
+                    />
+                    <div
+                      className="absolute inset-y-0 w-0.5 bg-white/80"
+                      style={{ left: `calc(${toPercent(reading.hold[channel])}% - 2px)` }}
+                    />
+                  </>
+                )}
+              </div>
+              <button
+                onClick={onResetClip}
+                className={`w-2 shrink-0 rounded-sm ${clipped ? 'bg-red-500' : 'bg-slate-700'}`}
+                style={{ height }}
+                title={clipped ? 'Clipped. Click to reset' : 'No clipping'}
+              />
+            </div>
+          );
+        })}
+        {showScale && (
+          <div className="relative h-3 mr-3 text-[9px] font-mono text-slate-500">
+            {SCALE_MARKS.map(db => (
+              <span key={db} className="absolute -translate-x-1/2" style={{ left: `${toPercent(db)}%` }}>
+                {db}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {showScale && (
+        <span className={`w-10 text-right text-xs font-mono ${maxHold >= 0 ? 'text-red-400' : 'text-slate-400'}`}>
+          {formatPeak(maxHold)}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, Save, ChevronDown } from 'lucide-react';
+import { PROJECT_FILE_EXTENSION } from '../services/projectFile';
+
+interface ProjectMenuProps {
+  canSave: boolean;
+  onOpen: (file: File) => void;
+  onSave: (embedAudio: boolean) => void;
+}
+
+export const ProjectMenu: React.FC<ProjectMenuProps> = ({ canSave, onOpen, onSave }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const save = (embedAudio: boolean) => {
+    setIsOpen(false);
+    onSave(embedAudio);
+  };
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <input
+        ref={inputRef}
+        type="file"
+        className="hidden"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onOpen(file);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+        title="Open project"
+      >
+        <FolderOpen size={16} />
+      </button>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={!canSave}
+        className="flex items-center gap-0.5 p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+        title="Save project"
+      >
+        <Save size={16} />
+        <ChevronDown size={12} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl py-2 z-10">
+          <button
+            onClick={() => save(true)}
+            className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors"
+          >
+            <div className="text-sm text-slate-200">Save with audio</div>
+            <div className="text-xs text-slate-500">One self-contained file</div>
+          </button>
+          <button
+            onClick={() => save(false)}
+            className="w-full text-left px-4 py-2 hover:bg-slate-800 transition-colors"
+          >
+            <div className="text-sm text-slate-200">Save arrangement only</div>
+            <div className="text-xs text-slate-500">Audio is referenced by file name and located again on open</div>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ProjectSource } from '../services/projectFile';
+
+interface RelinkDialogProps {
+  projectName: string;
+  missing: ProjectSource[];
+  onLocate: (files: File[]) => void;
+  onCancel: () => void;
+}
+
+// Asks for the audio files a project references by name
+export const RelinkDialog: React.FC<RelinkDialogProps> = ({ projectName, missing, onLocate, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl w-full max-w-md">
+        <h2 className="text-lg font-semibold text-white mb-1">Locate audio files</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          "{projectName}" references {missing.length} audio file{missing.length === 1 ? '' : 's'}. Select them to continue;
+          files are matched by name and clips without a match are left out.
+        </p>
+        <ul className="max-h-40 overflow-y-auto custom-scrollbar mb-6 space-y-1">
+          {missing.map(source => (
+            <li key={source.id} className="text-sm font-mono text-slate-300 truncate">{source.fileName}</li>
+          ))}
+        </ul>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <label className="cursor-pointer px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors">
+            <input
+              type="file"
+              className="hidden"
+              accept="audio/*"
+              multiple
+              onChange={(e) => onLocate(Array.from(e.target.files ?? []))}
+            />
+            Select Files
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
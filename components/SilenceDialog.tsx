@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { SilenceSettings } from '../services/silence';
+
+interface SilenceDialogProps {
+  initialSettings: SilenceSettings;
+  initialTrimOnImport: boolean;
+  selectedCount: number;
+  onSave: (settings: SilenceSettings, trimOnImport: boolean) => void;
+  onTrimSelection: (settings: SilenceSettings, trimOnImport: boolean) => void;
+  onCancel: () => void;
+}
+
+const labelClass = 'text-[10px] uppercase font-bold text-slate-500 tracking-wider';
+
+// Silence detection settings, used when trimming clips now or on import
+export const SilenceDialog: React.FC<SilenceDialogProps> = ({
+  initialSettings,
+  initialTrimOnImport,
+  selectedCount,
+  onSave,
+  onTrimSelection,
+  onCancel,
+}) => {
+  const [settings, setSettings] = useState<SilenceSettings>(initialSettings);
+  const [trimOnImport, setTrimOnImport] = useState(initialTrimOnImport);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] flex items-center justify-center">
+      <div className="bg-slate-900 p-6 rounded-2xl border border-slate-700 shadow-2xl w-full max-w-md">
+        <h2 className="text-lg font-semibold text-white mb-1">Trim silence</h2>
+        <p className="text-sm text-slate-400 mb-4">
+          Cuts quiet stretches off the start and end of clips. The audio stays where it was on the timeline, and trims
+          can be undone or dragged back out.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          <div className="flex flex-col">
+            <label className={labelClass}>
+              Threshold <span className="font-mono normal-case text-slate-400">{settings.threshold} dBFS</span>
+            </label>
+            <input
+              type="range"
+              min="-80"
+              max="-20"
+              step="1"
+              value={settings.threshold}
+              onChange={(e) => setSettings(prev => ({ ...prev, threshold: parseFloat(e.target.value) }))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label className={labelClass}>
+              Minimum duration <span className="font-mono normal-case text-slate-400">{settings.minDuration.toFixed(2)} s</span>
+            </label>
+            <input
+              type="range"
+              min="0.05"
+              max="3"
+              step="0.05"
+              value={settings.minDuration}
+              onChange={(e) => setSettings(prev => ({ ...prev, minDuration: parseFloat(e.target.value) }))}
+              className="w-full accent-blue-500"
+            />
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-slate-300 mb-6 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={trimOnImport}
+            onChange={() => setTrimOnImport(prev => !prev)}
+            className="accent-blue-500"
+          />
+          Trim silence from new clips on import
+        </label>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(settings, trimOnImport)}
+            className="px-4 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Save
+          </button>
+          <button
+            onClick={() => onTrimSelection(settings, trimOnImport)}
+            disabled={selectedCount === 0}
+            className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50 disabled:hover:bg-blue-600"
+          >
+            Trim {selectedCount === 1 ? 'selected clip' : `${selectedCount} selected clips`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
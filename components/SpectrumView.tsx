@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface SpectrumViewProps {
+  spectrum: Float32Array | null; // dB per FFT bin, null while stopped
+  sampleRate: number;
+  className?: string;
+}
+
+// Shown range: frequency on a log axis, level in dB
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20000;
+const MIN_DB = -100;
+const MAX_DB = 0;
+
+const FREQUENCY_MARKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+const formatFrequency = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : `${hz}`);
+
+// Real-time spectrum of the master output
+export const SpectrumView: React.FC<SpectrumViewProps> = ({ spectrum, sampleRate, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const maxFrequency = Math.min(MAX_FREQUENCY, sampleRate / 2);
+  const xOf = (hz: number) => Math.log(hz / MIN_FREQUENCY) / Math.log(maxFrequency / MIN_FREQUENCY);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width: Math.round(width), height: Math.round(height) });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas: HTMLCanvasElement | null = canvasRef.current;
+    if (!canvas || size.width === 0 || size.height === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * ratio);
+    const height = Math.round(size.height * ratio);
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+
+    ctx.strokeStyle = 'rgba(51, 65, 85, 0.6)';
+    ctx.lineWidth = 1;
+    for (const hz of FREQUENCY_MARKS) {
+      const x = Math.round(xOf(hz) * width) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height);
+      ctx.stroke();
+    }
+    if (!spectrum) return;
+
+    // Each pixel column shows the loudest bin it covers, so the high end's
+    // many bins don't blur into a fuzz
+    const binWidth = sampleRate / 2 / spectrum.length;
+    const level = (db: number) => Math.max(0, Math.min(1, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+    ctx.beginPath();
+    ctx.moveTo(0, height);
+    for (let x = 0; x < width; x++) {
+      const from = MIN_FREQUENCY * Math.pow(maxFrequency / MIN_FREQUENCY, x / width);
+      const to = MIN_FREQUENCY * Math.pow(maxFrequency / MIN_FREQUENCY, (x + 1) / width);
+      const first = Math.floor(from / binWidth);
+      const last = Math.max(first, Math.min(spectrum.length - 1, Math.floor(to / binWidth)));
+      let db = -Infinity;
+      for (let bin = first; bin <= last; bin++) db = Math.max(db, spectrum[bin]);
+      ctx.lineTo(x, height - level(db) * height);
+    }
+    ctx.lineTo(width, height);
+    ctx.closePath();
+
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, 'rgba(96, 165, 250, 0.9)');
+    gradient.addColorStop(1, 'rgba(37, 99, 235, 0.2)');
+    ctx.fillStyle = gradient;
+    ctx.fill();
+  }, [spectrum, sampleRate, size]);
+
+  return (
+    <div className={`relative ${className}`}>
+      <canvas ref={canvasRef} className="block w-full h-full" />
+      <div className="absolute inset-x-0 bottom-0 h-3 text-[9px] font-mono text-slate-500 pointer-events-none">
+        {FREQUENCY_MARKS.map(hz => (
+          <span key={hz} className="absolute -translate-x-1/2" style={{ left: `${xOf(hz) * 100}%` }}>
+            {formatFrequency(hz)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
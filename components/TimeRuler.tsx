@@ -0,0 +1,74 @@
+import React from 'react';
+import { formatTimecode } from '../services/timecode';
+
+interface TimeRulerProps {
+  pixelsPerSecond: number;
+  visibleStart: number; // Seconds
+  visibleEnd: number; // Seconds
+}
+
+// Candidate label spacings in seconds, paired with how many minor ticks split each one
+const TICK_STEPS: [number, number][] = [
+  [0.001, 5], [0.002, 4], [0.005, 5], [0.01, 5], [0.02, 4], [0.05, 5],
+  [0.1, 5], [0.2, 4], [0.5, 5], [1, 5], [2, 4], [5, 5], [10, 5], [15, 3],
+  [30, 6], [60, 6], [120, 4], [300, 5], [600, 5], [900, 3], [1800, 6], [3600, 6],
+];
+
+// Labels need roughly this much room so neighbours don't collide
+const MIN_LABEL_SPACING_PX = 80;
+
+export interface RulerScale {
+  step: number;
+  subdivisions: number;
+  decimals: number;
+}
+
+export const getRulerScale = (pixelsPerSecond: number): RulerScale => {
+  const [step, subdivisions] =
+    TICK_STEPS.find(([candidate]) => candidate * pixelsPerSecond >= MIN_LABEL_SPACING_PX) ??
+    TICK_STEPS[TICK_STEPS.length - 1];
+  const decimals = step >= 1 ? 0 : step >= 0.1 ? 1 : step >= 0.01 ? 2 : 3;
+  return { step, subdivisions, decimals };
+};
+
+// Major tick positions (in seconds) that fall inside the visible range
+export const getMajorTicks = (scale: RulerScale, visibleStart: number, visibleEnd: number): number[] => {
+  const ticks: number[] = [];
+  const first = Math.max(0, Math.floor(visibleStart / scale.step));
+  for (let i = first; i * scale.step <= visibleEnd; i++) {
+    ticks.push(i * scale.step);
+  }
+  return ticks;
+};
+
+export const TimeRuler: React.FC<TimeRulerProps> = ({ pixelsPerSecond, visibleStart, visibleEnd }) => {
+  const scale = getRulerScale(pixelsPerSecond);
+  const majorTicks = getMajorTicks(scale, visibleStart, visibleEnd);
+  const minorStep = scale.step / scale.subdivisions;
+
+  return (
+    <div className="relative h-6 border-b border-slate-800 text-[10px] text-slate-500 select-none">
+      {majorTicks.map(time => (
+        <React.Fragment key={time}>
+          <div
+            className="absolute bottom-0 h-3 border-l border-slate-500"
+            style={{ left: time * pixelsPerSecond }}
+          />
+          <span
+            className="absolute top-0 pl-1 font-mono whitespace-nowrap"
+            style={{ left: time * pixelsPerSecond }}
+          >
+            {formatTimecode(time, scale.decimals)}
+          </span>
+          {Array.from({ length: scale.subdivisions - 1 }).map((_, i) => (
+            <div
+              key={i}
+              className="absolute bottom-0 h-1.5 border-l border-slate-700"
+              style={{ left: (time + (i + 1) * minorStep) * pixelsPerSecond }}
+            />
+          ))}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { formatTimecode, parseTimecode } from '../services/timecode';
+
+interface TimecodeInputProps {
+  value: number;
+  onCommit: (seconds: number) => void;
+  className?: string;
+}
+
+// Shows a position as timecode. Clicking it allows typing a new position,
+// applied on Enter; Escape or leaving the field discards the edit.
+export const TimecodeInput: React.FC<TimecodeInputProps> = ({ value, onCommit, className = '' }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isInvalid = draft !== null && parseTimecode(draft) === null;
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      const seconds = parseTimecode(draft ?? '');
+      if (seconds === null) return;
+      onCommit(seconds);
+      event.currentTarget.blur();
+    } else if (event.key === 'Escape') {
+      event.currentTarget.blur();
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft ?? formatTimecode(value)}
+      onFocus={(e) => {
+        setDraft(formatTimecode(value));
+        e.currentTarget.select();
+      }}
+      onChange={(e) => setDraft(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => setDraft(null)}
+      spellCheck={false}
+      className={`bg-transparent font-mono focus:outline-none focus:bg-slate-900 rounded px-1 ${isInvalid ? 'text-red-400' : ''} ${className}`}
+      title="Type a position (mm:ss.fff or seconds) and press Enter"
+    />
+  );
+};
@@ -1,70 +1,771 @@
-import React, { useMemo } from 'react';
-import { AudioTrack } from '../types';
+import React from 'react';
+import { AudioTrack, Lane, LoopRegion, TimelineMarker } from '../types';
+import { getTrackLength, MIN_CLIP_LENGTH } from '../services/trackUtils';
+import { ClipFades, fadeGain, getEffectiveFades } from '../services/fades';
+import { SnapSettings, SNAP_THRESHOLD_PX, snapMovement } from '../services/snapping';
+import { clipsOverlap, getLaneColor } from '../services/lanes';
+import { MIN_LOOP_LENGTH } from '../services/playbackEngine';
+import { formatTimecode } from '../services/timecode';
+import { Waveform } from './Waveform';
+import { TimeRuler, getMajorTicks, getRulerScale } from './TimeRuler';
+import { EnvelopeEditor } from './EnvelopeEditor';
+import { ZoomIn, ZoomOut, Maximize2, Focus, Plus, Trash2, Spline } from 'lucide-react';
 
 interface TimelineProps {
   tracks: AudioTrack[];
+  lanes: Lane[];
   currentTime: number;
   totalDuration: number;
+  autoCrossfade: boolean;
+  snapSettings: SnapSettings;
+  loopRegion: LoopRegion | null;
+  loopEnabled: boolean;
+  markers: TimelineMarker[];
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onUpdateTrack: (id: string, changes: Partial<AudioTrack>) => void;
+  onMoveTracks: (positions: Record<string, { startTime: number; laneId: string }>) => void;
+  onAddLane: () => void;
+  onUpdateLane: (id: string, changes: Partial<Lane>) => void;
+  onRemoveLane: (id: string) => void;
+  onSeek: (time: number) => void;
+  onLoopChange: (region: LoopRegion | null) => void;
 }
 
-export const Timeline: React.FC<TimelineProps> = ({ tracks, currentTime, totalDuration }) => {
-  const containerRef = React.useRef<HTMLDivElement>(null);
+interface MoveDrag {
+  originX: number;
+  originY: number;
+  secondsPerPixel: number;
+  clips: AudioTrack[]; // Every dragged clip as it was when the drag began
+  staying: AudioTrack[]; // Every other clip, used for collision checks
+  edges: number[]; // Start and end of every dragged clip when the drag began
+  targets: number[]; // Edges of the clips staying put, plus the playhead
+}
+
+interface TrimDrag {
+  trackId: string;
+  edge: 'start' | 'end';
+  originX: number;
+  secondsPerPixel: number;
+  startTime: number;
+  trimStart: number;
+  trimEnd: number;
+  minStart: number; // End of the previous clip on the lane
+  maxEnd: number; // Start of the next clip on the lane
+}
+
+interface LoopDrag {
+  mode: 'create' | 'move' | 'start' | 'end';
+  originTime: number;
+  region: LoopRegion; // The region as it was when the drag began
+  secondsPerPixel: number;
+}
+
+// Zoom limits in pixels per second. The lower bound also gives way to whatever
+// "zoom to fit" needs for very long projects.
+const MAX_PIXELS_PER_SECOND = 5000;
+const MIN_PIXELS_PER_SECOND = 1;
+const ZOOM_STEP = 1.5;
+
+// Height of one lane row in pixels
+const LANE_HEIGHT = 48;
+
+// Height of the loop strip above the ruler, and how close in pixels a
+// pointer has to be to grab one of the loop's edges
+const LOOP_STRIP_HEIGHT = 12;
+const LOOP_EDGE_GRAB_PX = 5;
+
+// Height of the marker strip between the ruler and the lanes, shown while
+// there are markers
+const MARKER_STRIP_HEIGHT = 18;
+
+// Number of points used to draw each fade curve
+const FADE_CURVE_RESOLUTION = 24;
 
-  // Determine scale: ensure the timeline fits at least the total duration
-  // Min width of 100% or more if duration is long. 
-  // Let's create a visual scale: 1 second = X pixels.
-  // To keep it responsive, we work with percentages relative to totalDuration.
-  
+// SVG path (in a 0..100 x 0..1 viewBox) shading the attenuated part of a clip
+const fadeOverlayPath = (fades: ClipFades, length: number): string => {
+  if (length <= 0) return '';
+  const paths: string[] = [];
+
+  if (fades.fadeIn > 0) {
+    const width = (fades.fadeIn / length) * 100;
+    const points = Array.from({ length: FADE_CURVE_RESOLUTION + 1 }, (_, i) => {
+      const t = i / FADE_CURVE_RESOLUTION;
+      return `L${(t * width).toFixed(2)},${(1 - fadeGain(fades.fadeInCurve, t)).toFixed(3)}`;
+    });
+    paths.push(`M0,0 ${points.join(' ')} L${width.toFixed(2)},0 Z`);
+  }
+
+  if (fades.fadeOut > 0) {
+    const width = (fades.fadeOut / length) * 100;
+    const start = 100 - width;
+    const points = Array.from({ length: FADE_CURVE_RESOLUTION + 1 }, (_, i) => {
+      const t = i / FADE_CURVE_RESOLUTION;
+      return `L${(start + t * width).toFixed(2)},${(1 - fadeGain(fades.fadeOutCurve, 1 - t)).toFixed(3)}`;
+    });
+    paths.push(`M${start.toFixed(2)},0 ${points.join(' ')} L100,0 Z`);
+  }
+
+  return paths.join(' ');
+};
+
+export const Timeline: React.FC<TimelineProps> = ({
+  tracks,
+  lanes,
+  currentTime,
+  totalDuration,
+  autoCrossfade,
+  snapSettings,
+  loopRegion,
+  loopEnabled,
+  markers,
+  selectedIds,
+  onSelectionChange,
+  onUpdateTrack,
+  onMoveTracks,
+  onAddLane,
+  onUpdateLane,
+  onRemoveLane,
+  onSeek,
+  onLoopChange,
+}) => {
+  const scrollRef = React.useRef<HTMLDivElement>(null);
+  const contentRef = React.useRef<HTMLDivElement>(null);
+  const pendingScrollRef = React.useRef<number | null>(null);
+  const trimDragRef = React.useRef<TrimDrag | null>(null);
+  const moveDragRef = React.useRef<MoveDrag | null>(null);
+  const loopDragRef = React.useRef<LoopDrag | null>(null);
+  const scrubbingRef = React.useRef(false);
+  const [snapLine, setSnapLine] = React.useState<number | null>(null);
+  const [viewportWidth, setViewportWidth] = React.useState(0);
+  const [scrollLeft, setScrollLeft] = React.useState(0);
+  // Pixels per second, or null while the view is fitted to the whole arrangement
+  const [zoom, setZoom] = React.useState<number | null>(null);
+  // While on, clicks on a clip edit its volume envelope instead of moving it
+  const [editEnvelopes, setEditEnvelopes] = React.useState(false);
+
+  const laneIndex = (laneId: string) => Math.max(0, lanes.findIndex(l => l.id === laneId));
+
+  const effectiveFades = React.useMemo(() => getEffectiveFades(tracks, autoCrossfade), [tracks, autoCrossfade]);
+
+  // Determine scale: in "fit" mode the whole arrangement fills the viewport,
+  // otherwise the user's zoom level sets how many pixels make up one second
+  // and the content scrolls horizontally.
   const safeDuration = Math.max(totalDuration, 1); // Avoid division by zero
+  const fitPixelsPerSecond = Math.max(viewportWidth, 1) / safeDuration;
+  const minPixelsPerSecond = Math.min(fitPixelsPerSecond, MIN_PIXELS_PER_SECOND);
+  const pixelsPerSecond = zoom ?? fitPixelsPerSecond;
+  const contentWidth = Math.max(viewportWidth, safeDuration * pixelsPerSecond);
+
+  const visibleStart = scrollLeft / pixelsPerSecond;
+  const visibleEnd = (scrollLeft + viewportWidth) / pixelsPerSecond;
+  const gridTicks = getMajorTicks(getRulerScale(pixelsPerSecond), visibleStart, visibleEnd);
+
+  React.useEffect(() => {
+    const viewport = scrollRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(entries => {
+      setViewportWidth(entries[0].contentRect.width);
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Apply the scroll position that keeps the zoom anchor in place once the
+  // content has been laid out at the new scale
+  React.useLayoutEffect(() => {
+    const viewport = scrollRef.current;
+    if (!viewport || pendingScrollRef.current === null) return;
+    viewport.scrollLeft = Math.max(0, pendingScrollRef.current);
+    pendingScrollRef.current = null;
+    setScrollLeft(viewport.scrollLeft);
+  }, [pixelsPerSecond]);
+
+  // Zooms to `next` pixels per second while keeping `anchorTime` at
+  // `anchorOffset` pixels from the left edge of the viewport
+  const zoomTo = (next: number, anchorTime: number, anchorOffset: number) => {
+    const clamped = Math.max(minPixelsPerSecond, Math.min(MAX_PIXELS_PER_SECOND, next));
+    if (clamped === pixelsPerSecond && scrollRef.current) {
+      scrollRef.current.scrollLeft = Math.max(0, anchorTime * clamped - anchorOffset);
+      return;
+    }
+    pendingScrollRef.current = anchorTime * clamped - anchorOffset;
+    setZoom(clamped);
+  };
+
+  const zoomAroundCenter = (factor: number) => {
+    const center = viewportWidth / 2;
+    zoomTo(pixelsPerSecond * factor, (scrollLeft + center) / pixelsPerSecond, center);
+  };
+
+  const zoomToFit = () => {
+    pendingScrollRef.current = 0;
+    setZoom(null);
+  };
+
+  const zoomToSelection = () => {
+    const selected = tracks.filter(t => selectedIds.includes(t.id));
+    if (selected.length === 0) return;
+    const start = Math.min(...selected.map(t => t.startTime));
+    const end = Math.max(...selected.map(t => t.startTime + getTrackLength(t)));
+    // Leave a little breathing room on either side
+    const margin = (end - start) * 0.05;
+    zoomTo(viewportWidth / (end - start + margin * 2), start - margin, 0);
+  };
+
+  // Ctrl/Cmd + wheel zooms around the cursor. This has to be a native listener
+  // because React registers wheel handlers as passive.
+  React.useEffect(() => {
+    const viewport = scrollRef.current;
+    if (!viewport) return;
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      const offset = event.clientX - viewport.getBoundingClientRect().left;
+      const anchorTime = (viewport.scrollLeft + offset) / pixelsPerSecond;
+      zoomTo(pixelsPerSecond * Math.pow(ZOOM_STEP, -event.deltaY / 100), anchorTime, offset);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  });
+
+  const beginTrim = (event: React.PointerEvent<HTMLDivElement>, track: AudioTrack, edge: 'start' | 'end') => {
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    // A trim can grow the clip up to, but not over, its lane neighbours
+    const neighbours = tracks.filter(t => t.laneId === track.laneId && t.id !== track.id);
+    const end = track.startTime + getTrackLength(track);
+    const minStart = neighbours
+      .map(t => t.startTime + getTrackLength(t))
+      .filter(e => e <= track.startTime)
+      .reduce((max, e) => Math.max(max, e), 0);
+    const maxEnd = neighbours
+      .map(t => t.startTime)
+      .filter(s => s >= end)
+      .reduce((min, s) => Math.min(min, s), Infinity);
+
+    // Freeze the scale for the whole drag, otherwise trimming the last clip in
+    // fit mode changes the scale and the clip edge runs away from the cursor
+    trimDragRef.current = {
+      trackId: track.id,
+      edge,
+      originX: event.clientX,
+      secondsPerPixel: 1 / pixelsPerSecond,
+      startTime: track.startTime,
+      trimStart: track.trimStart,
+      trimEnd: track.trimEnd,
+      minStart,
+      maxEnd,
+    };
+  };
+
+  const updateTrim = (event: React.PointerEvent<HTMLDivElement>, track: AudioTrack) => {
+    const drag = trimDragRef.current;
+    if (!drag || drag.trackId !== track.id) return;
+
+    const delta = (event.clientX - drag.originX) * drag.secondsPerPixel;
+
+    if (drag.edge === 'start') {
+      // Moving the in point keeps the remaining audio where it was on the timeline
+      const minDelta = Math.max(-drag.trimStart, drag.minStart - drag.startTime);
+      const maxDelta = drag.trimEnd - MIN_CLIP_LENGTH - drag.trimStart;
+      const clamped = Math.max(minDelta, Math.min(maxDelta, delta));
+      onUpdateTrack(track.id, {
+        trimStart: drag.trimStart + clamped,
+        startTime: drag.startTime + clamped,
+      });
+    } else {
+      const limit = Math.min(track.duration, drag.maxEnd - drag.startTime + drag.trimStart);
+      const trimEnd = Math.max(drag.trimStart + MIN_CLIP_LENGTH, Math.min(limit, drag.trimEnd + delta));
+      onUpdateTrack(track.id, { trimEnd });
+    }
+  };
+
+  const endTrim = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!trimDragRef.current) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    trimDragRef.current = null;
+  };
+
+  const beginMove = (event: React.PointerEvent<HTMLDivElement>, track: AudioTrack) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+
+    // Shift or Ctrl/Cmd toggles the clip in the selection; a plain click on an
+    // unselected clip selects just that clip
+    let selection = selectedIds;
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      selection = selectedIds.includes(track.id)
+        ? selectedIds.filter(id => id !== track.id)
+        : [...selectedIds, track.id];
+      onSelectionChange(selection);
+      if (!selection.includes(track.id)) return;
+    } else if (!selectedIds.includes(track.id)) {
+      selection = [track.id];
+      onSelectionChange(selection);
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const moving = tracks.filter(t => selection.includes(t.id));
+    const staying = tracks.filter(t => !selection.includes(t.id));
+    moveDragRef.current = {
+      originX: event.clientX,
+      originY: event.clientY,
+      secondsPerPixel: 1 / pixelsPerSecond,
+      clips: moving,
+      staying,
+      edges: moving.flatMap(t => [t.startTime, t.startTime + getTrackLength(t)]),
+      targets: [0, currentTime, ...staying.flatMap(t => [t.startTime, t.startTime + getTrackLength(t)])],
+    };
+  };
+
+  const updateMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag: MoveDrag | null = moveDragRef.current;
+    if (!drag) return;
+
+    let delta = (event.clientX - drag.originX) * drag.secondsPerPixel;
+
+    // Holding Alt bypasses snapping for fine placement
+    let target: number | null = null;
+    if (snapSettings.enabled && !event.altKey) {
+      const snapped = snapMovement(
+        drag.edges,
+        delta,
+        drag.targets,
+        snapSettings.gridSize,
+        SNAP_THRESHOLD_PX * drag.secondsPerPixel
+      );
+      delta = snapped.delta;
+      target = snapped.target;
+    }
 
-  const progressPercent = (currentTime / safeDuration) * 100;
+    // Keep the whole group at or after zero
+    const earliest = Math.min(...drag.clips.map(t => t.startTime));
+    delta = Math.max(-earliest, delta);
+
+    // Vertical movement shifts the whole group by whole lanes, within bounds
+    const indices = drag.clips.map(t => laneIndex(t.laneId));
+    const laneShift = Math.max(
+      -Math.min(...indices),
+      Math.min(lanes.length - 1 - Math.max(...indices), Math.round((event.clientY - drag.originY) / LANE_HEIGHT))
+    );
+
+    const moved = drag.clips.map((t, i) => ({
+      ...t,
+      startTime: t.startTime + delta,
+      laneId: lanes[indices[i] + laneShift].id,
+    }));
+
+    // Clips can't overlap on a lane, so a colliding position is simply not
+    // taken and the clips stay at their last valid spot
+    if (moved.some(m => drag.staying.some(t => t.laneId === m.laneId && clipsOverlap(t, m)))) return;
+
+    setSnapLine(target);
+    onMoveTracks(Object.fromEntries(
+      moved.map(t => [t.id, { startTime: t.startTime, laneId: t.laneId }] as const)
+    ));
+  };
+
+  const endMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!moveDragRef.current) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    moveDragRef.current = null;
+    setSnapLine(null);
+  };
+
+  // Timeline position under the pointer, never before zero
+  const timeAt = (event: React.PointerEvent) => {
+    const content = contentRef.current;
+    if (!content) return 0;
+    return Math.max(0, (event.clientX - content.getBoundingClientRect().left) / pixelsPerSecond);
+  };
+
+  const snapTargets = () => [0, currentTime, ...tracks.flatMap(t => [t.startTime, t.startTime + getTrackLength(t)])];
+
+  // Pulls a position onto clip edges, the playhead or the grid, unless
+  // snapping is off or Alt is held
+  const snapTime = (time: number, event: React.PointerEvent) => {
+    if (!snapSettings.enabled || event.altKey) return time;
+    return time + snapMovement([time], 0, snapTargets(), snapSettings.gridSize, SNAP_THRESHOLD_PX / pixelsPerSecond).delta;
+  };
+
+  // Clicking the ruler or empty lane space moves the playhead; dragging scrubs
+  const beginScrub = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    scrubbingRef.current = true;
+    onSeek(Math.min(totalDuration, timeAt(event)));
+  };
+
+  const updateScrub = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!scrubbingRef.current) return;
+    onSeek(Math.min(totalDuration, timeAt(event)));
+  };
+
+  const endScrub = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!scrubbingRef.current) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    scrubbingRef.current = false;
+  };
+
+  // Dragging on the loop strip draws a new region; the existing region can be
+  // moved by its body or resized by its edges
+  const beginLoopDrag = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const time = timeAt(event);
+    const grab = LOOP_EDGE_GRAB_PX / pixelsPerSecond;
+    let mode: LoopDrag['mode'] = 'create';
+    if (loopRegion) {
+      if (Math.abs(time - loopRegion.start) <= grab) mode = 'start';
+      else if (Math.abs(time - loopRegion.end) <= grab) mode = 'end';
+      else if (time > loopRegion.start && time < loopRegion.end) mode = 'move';
+    }
+
+    const anchor = mode === 'create' ? snapTime(time, event) : time;
+    loopDragRef.current = {
+      mode,
+      originTime: anchor,
+      region: mode === 'create' ? { start: anchor, end: anchor } : loopRegion!,
+      secondsPerPixel: 1 / pixelsPerSecond,
+    };
+  };
+
+  const updateLoopDrag = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag: LoopDrag | null = loopDragRef.current;
+    if (!drag) return;
+    const time = timeAt(event);
+    const { start, end } = drag.region;
+
+    switch (drag.mode) {
+      case 'create': {
+        const edge = snapTime(time, event);
+        onLoopChange({ start: Math.min(drag.originTime, edge), end: Math.max(drag.originTime, edge) });
+        break;
+      }
+      case 'move': {
+        // Snap whichever edge lands closest to a target
+        let delta = time - drag.originTime;
+        if (snapSettings.enabled && !event.altKey) {
+          const threshold = SNAP_THRESHOLD_PX * drag.secondsPerPixel;
+          delta = snapMovement([start, end], delta, snapTargets(), snapSettings.gridSize, threshold).delta;
+        }
+        delta = Math.max(-start, delta);
+        onLoopChange({ start: start + delta, end: end + delta });
+        break;
+      }
+      case 'start':
+        onLoopChange({ start: Math.min(snapTime(time, event), end - MIN_LOOP_LENGTH), end });
+        break;
+      case 'end':
+        onLoopChange({ start, end: Math.max(snapTime(time, event), start + MIN_LOOP_LENGTH) });
+        break;
+    }
+  };
+
+  const endLoopDrag = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag: LoopDrag | null = loopDragRef.current;
+    if (!drag) return;
+    event.currentTarget.releasePointerCapture(event.pointerId);
+    loopDragRef.current = null;
+
+    // A click without a drag on empty strip space clears the loop
+    if (drag.mode === 'create') {
+      const edge = snapTime(timeAt(event), event);
+      if (Math.abs(edge - drag.originTime) < MIN_LOOP_LENGTH) onLoopChange(null);
+    }
+  };
 
   return (
     <div className="w-full bg-slate-900 rounded-lg p-4 border border-slate-800 overflow-hidden relative">
-      <div className="flex justify-between text-xs text-slate-500 mb-2">
-        <span>00:00</span>
-        <span>{new Date(safeDuration * 1000).toISOString().substr(14, 5)}</span>
+      <div className="flex items-center justify-end gap-1 mb-2 text-slate-400">
+        <button
+          onClick={() => setEditEnvelopes(!editEnvelopes)}
+          className={`p-1.5 rounded hover:bg-slate-800 hover:text-slate-200 transition-colors ${editEnvelopes ? 'text-amber-400' : ''}`}
+          title={editEnvelopes ? 'Stop editing volume envelopes' : 'Edit volume envelopes (click to add a point, double-click to remove)'}
+        >
+          <Spline size={16} />
+        </button>
+        <div className="w-px h-4 bg-slate-700 mx-1" />
+        <button
+          onClick={() => zoomAroundCenter(1 / ZOOM_STEP)}
+          className="p-1.5 rounded hover:bg-slate-800 hover:text-slate-200 transition-colors"
+          title="Zoom out (Ctrl + wheel)"
+        >
+          <ZoomOut size={16} />
+        </button>
+        <button
+          onClick={() => zoomAroundCenter(ZOOM_STEP)}
+          className="p-1.5 rounded hover:bg-slate-800 hover:text-slate-200 transition-colors"
+          title="Zoom in (Ctrl + wheel)"
+        >
+          <ZoomIn size={16} />
+        </button>
+        <button
+          onClick={zoomToFit}
+          className={`p-1.5 rounded hover:bg-slate-800 hover:text-slate-200 transition-colors ${zoom === null ? 'text-blue-400' : ''}`}
+          title="Zoom to fit"
+        >
+          <Maximize2 size={16} />
+        </button>
+        <button
+          onClick={zoomToSelection}
+          disabled={selectedIds.length === 0}
+          className="p-1.5 rounded hover:bg-slate-800 hover:text-slate-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+          title="Zoom to selection"
+        >
+          <Focus size={16} />
+        </button>
       </div>
 
-      <div className="relative h-40 w-full bg-slate-950 rounded border border-slate-800 overflow-x-auto custom-scrollbar">
-        {/* Playhead */}
+      <div className="flex">
+        {/* Lane headers */}
+        <div className="w-40 shrink-0 mr-2">
+          <div style={{ height: LOOP_STRIP_HEIGHT }} />
+          <div className="h-6 mt-px" />
+          {markers.length > 0 && <div style={{ height: MARKER_STRIP_HEIGHT }} />}
+          {lanes.map(lane => {
+            const isEmpty = !tracks.some(t => t.laneId === lane.id);
+            return (
+              <div
+                key={lane.id}
+                className="flex items-center gap-1.5 px-2 border-b border-slate-800"
+                style={{ height: LANE_HEIGHT, borderLeft: `3px solid ${lane.color}` }}
+              >
+                <input
+                  type="color"
+                  value={lane.color}
+                  onChange={(e) => onUpdateLane(lane.id, { color: e.target.value })}
+                  className="w-4 h-4 shrink-0 rounded cursor-pointer bg-transparent border-0 p-0"
+                  title="Lane color"
+                />
+                <input
+                  type="text"
+                  value={lane.name}
+                  onChange={(e) => onUpdateLane(lane.id, { name: e.target.value })}
+                  className="min-w-0 flex-1 bg-transparent text-xs text-slate-200 px-1 py-0.5 rounded focus:bg-slate-800 focus:outline-none"
+                />
+                <button
+                  onClick={() => onRemoveLane(lane.id)}
+                  disabled={!isEmpty || lanes.length <= 1}
+                  className="p-1 text-slate-500 hover:text-red-400 rounded transition-colors disabled:opacity-30 disabled:hover:text-slate-500"
+                  title={isEmpty ? 'Remove lane' : 'Only empty lanes can be removed'}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={onAddLane}
+            className="flex items-center gap-1 mt-2 px-2 py-1 text-xs text-blue-400 hover:text-blue-300 hover:bg-blue-900/20 rounded transition-colors"
+          >
+            <Plus size={12} />
+            Add Lane
+          </button>
+        </div>
+
         <div
-          className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-20 shadow-[0_0_10px_rgba(239,68,68,0.5)] transition-all duration-100 ease-linear"
-          style={{ left: `${progressPercent}%` }}
-        />
-
-        {/* Tracks Visualization */}
-        <div className="relative w-full h-full min-w-full">
-            {tracks.map((track, index) => {
-              const left = (track.startTime / safeDuration) * 100;
-              const width = (track.duration / safeDuration) * 100;
-              const top = 10 + index * 30; // Stagger tracks vertically
-
-              return (
+          ref={scrollRef}
+          className="relative flex-1 min-w-0 self-start bg-slate-950 rounded border border-slate-800 overflow-x-auto custom-scrollbar"
+          onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+        >
+          <div ref={contentRef} className="relative" style={{ width: contentWidth }}>
+            {/* Loop strip */}
+            <div
+              className="relative bg-slate-900 cursor-crosshair select-none"
+              style={{ height: LOOP_STRIP_HEIGHT }}
+              onPointerDown={beginLoopDrag}
+              onPointerMove={updateLoopDrag}
+              onPointerUp={endLoopDrag}
+              onPointerCancel={endLoopDrag}
+              title="Drag to set the loop region, click empty space to clear it"
+            >
+              {loopRegion && (
                 <div
-                  key={track.id}
-                  className="absolute h-6 rounded-md flex items-center px-2 overflow-hidden text-[10px] text-white whitespace-nowrap shadow-sm z-10 opacity-90 hover:opacity-100 transition-opacity"
+                  className={`absolute top-0.5 bottom-0.5 rounded-sm cursor-move ${loopEnabled ? 'bg-blue-500/70' : 'bg-slate-600/70'}`}
                   style={{
-                    left: `${left}%`,
-                    width: `${width}%`,
-                    backgroundColor: track.color,
-                    top: `${top}px`,
+                    left: loopRegion.start * pixelsPerSecond,
+                    width: (loopRegion.end - loopRegion.start) * pixelsPerSecond,
                   }}
-                  title={`${track.fileName} (Starts at ${track.startTime}s)`}
                 >
-                  {track.fileName}
+                  <div className="absolute -left-1 top-0 bottom-0 w-2 cursor-ew-resize" />
+                  <div className="absolute -right-1 top-0 bottom-0 w-2 cursor-ew-resize" />
                 </div>
-              );
-            })}
-            
-            {/* Grid lines for visual reference */}
-            {Array.from({ length: 10 }).map((_, i) => (
-                <div 
-                    key={i} 
-                    className="absolute top-0 bottom-0 border-r border-slate-900 pointer-events-none"
-                    style={{ left: `${(i + 1) * 10}%` }}
+              )}
+            </div>
+
+            <div
+              onPointerDown={beginScrub}
+              onPointerMove={updateScrub}
+              onPointerUp={endScrub}
+              onPointerCancel={endScrub}
+            >
+              <TimeRuler pixelsPerSecond={pixelsPerSecond} visibleStart={visibleStart} visibleEnd={visibleEnd} />
+            </div>
+
+            {/* Markers */}
+            {markers.length > 0 && (
+              <div className="relative border-b border-slate-800 select-none" style={{ height: MARKER_STRIP_HEIGHT }}>
+                {markers.map(marker => (
+                  <div
+                    key={marker.id}
+                    className="absolute top-0.5 bottom-0.5 rounded-sm px-1 overflow-hidden whitespace-nowrap text-[10px] leading-[14px] text-white cursor-pointer hover:brightness-125"
+                    style={{
+                      left: marker.start * pixelsPerSecond,
+                      width: Math.max(2, (marker.end - marker.start) * pixelsPerSecond),
+                      backgroundColor: `${marker.color}b3`,
+                      borderLeft: `2px solid ${marker.color}`,
+                    }}
+                    title={`${formatTimecode(marker.start)} ${marker.detail}`}
+                    onClick={() => onSeek(marker.start)}
+                  >
+                    {marker.label}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Tracks Visualization */}
+            <div
+              className="relative"
+              style={{ height: Math.max(1, lanes.length) * LANE_HEIGHT }}
+              onPointerDown={(e) => {
+                onSelectionChange([]);
+                beginScrub(e);
+              }}
+              onPointerMove={updateScrub}
+              onPointerUp={endScrub}
+              onPointerCancel={endScrub}
+            >
+              {/* Lane rows */}
+              {lanes.map((lane, index) => (
+                <div
+                  key={lane.id}
+                  className="absolute left-0 right-0 border-b border-slate-800/70 pointer-events-none"
+                  style={{ top: index * LANE_HEIGHT, height: LANE_HEIGHT }}
+                />
+              ))}
+
+              {/* Grid lines follow the ruler's major ticks */}
+              {gridTicks.map(time => (
+                <div
+                  key={time}
+                  className="absolute top-0 bottom-0 border-r border-slate-900 pointer-events-none"
+                  style={{ left: time * pixelsPerSecond }}
                 />
-            ))}
+              ))}
+
+              {tracks.map(track => {
+                const length = getTrackLength(track);
+                const left = track.startTime * pixelsPerSecond;
+                const width = length * pixelsPerSecond;
+                const top = laneIndex(track.laneId) * LANE_HEIGHT + 4;
+                const isSelected = selectedIds.includes(track.id);
+
+                // Only the on-screen part of the waveform is drawn, so deep zoom
+                // levels never need a canvas wider than the viewport
+                const waveStart = Math.max(0, scrollLeft - left);
+                const waveEnd = Math.min(width, scrollLeft + viewportWidth - left);
+
+                return (
+                  <div
+                    key={track.id}
+                    className={`absolute rounded-md flex items-center px-2 overflow-hidden text-[10px] text-white whitespace-nowrap shadow-sm z-10 opacity-90 hover:opacity-100 transition-opacity group cursor-grab active:cursor-grabbing select-none ${isSelected ? 'ring-2 ring-white' : ''}`}
+                    style={{
+                      left,
+                      width,
+                      height: LANE_HEIGHT - 8,
+                      backgroundColor: getLaneColor(lanes, track.laneId),
+                      top: `${top}px`,
+                    }}
+                    title={`${track.fileName} (Starts at ${track.startTime.toFixed(2)}s)`}
+                    onPointerDown={(e) => beginMove(e, track)}
+                    onPointerMove={updateMove}
+                    onPointerUp={endMove}
+                    onPointerCancel={endMove}
+                  >
+                    {waveEnd > waveStart && (
+                      <div
+                        className="absolute top-0 bottom-0 pointer-events-none"
+                        style={{ left: waveStart, width: waveEnd - waveStart }}
+                      >
+                        <Waveform
+                          buffer={track.buffer}
+                          startTime={track.trimStart + waveStart / pixelsPerSecond}
+                          endTime={track.trimStart + waveEnd / pixelsPerSecond}
+                          color="rgba(255, 255, 255, 0.45)"
+                        />
+                      </div>
+                    )}
+
+                    {/* Fade curves */}
+                    <svg
+                      className="absolute inset-0 w-full h-full pointer-events-none"
+                      viewBox="0 0 100 1"
+                      preserveAspectRatio="none"
+                    >
+                      <path d={fadeOverlayPath(effectiveFades.get(track.id)!, length)} fill="rgba(2, 6, 23, 0.55)" />
+                    </svg>
+
+                    <span className="relative">{track.fileName}</span>
+
+                    <EnvelopeEditor
+                      points={track.volumeEnvelope}
+                      trimStart={track.trimStart}
+                      trimEnd={track.trimEnd}
+                      width={width}
+                      height={LANE_HEIGHT - 8}
+                      editable={editEnvelopes}
+                      onChange={(volumeEnvelope) => onUpdateTrack(track.id, { volumeEnvelope })}
+                    />
+
+                    {/* Trim handles */}
+                    {(['start', 'end'] as const).map(edge => (
+                      <div
+                        key={edge}
+                        className={`absolute top-0 bottom-0 w-1.5 cursor-ew-resize bg-white/0 group-hover:bg-white/40 ${edge === 'start' ? 'left-0' : 'right-0'}`}
+                        onPointerDown={(e) => beginTrim(e, track, edge)}
+                        onPointerMove={(e) => updateTrim(e, track)}
+                        onPointerUp={endTrim}
+                        onPointerCancel={endTrim}
+                        title={edge === 'start' ? 'Drag to trim the start' : 'Drag to trim the end'}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Loop region */}
+            {loopRegion && (
+              <div
+                className={`absolute bottom-0 pointer-events-none border-x ${loopEnabled ? 'bg-blue-500/10 border-blue-500/50' : 'bg-slate-500/5 border-slate-600/40'}`}
+                style={{
+                  top: LOOP_STRIP_HEIGHT,
+                  left: loopRegion.start * pixelsPerSecond,
+                  width: (loopRegion.end - loopRegion.start) * pixelsPerSecond,
+                }}
+              />
+            )}
+
+            {/* Playhead */}
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-20 shadow-[0_0_10px_rgba(239,68,68,0.5)] pointer-events-none"
+              style={{ left: currentTime * pixelsPerSecond }}
+            />
+
+            {/* Snap indicator */}
+            {snapLine !== null && (
+              <div
+                className="absolute top-0 bottom-0 w-px bg-amber-300 z-20 pointer-events-none"
+                style={{ left: snapLine * pixelsPerSecond }}
+              />
+            )}
+          </div>
         </div>
       </div>
     </div>
@@ -1,58 +1,265 @@
-import React from 'react';
-import { AudioTrack } from '../types';
-import { Trash2, Music, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { AudioTrack, FadeCurve, Lane } from '../types';
+import { Trash2, Music, Clock, Volume2, VolumeX, Headphones, Scissors, RotateCcw } from 'lucide-react';
+import { MIN_VOLUME_DB, MAX_VOLUME_DB, MIN_CLIP_LENGTH, getTrackLength } from '../services/trackUtils';
+import { FADE_CURVES } from '../services/fades';
+import { getLaneColor } from '../services/lanes';
+import { Waveform } from './Waveform';
+import { EffectsChain } from './EffectsChain';
+import { LevelMeter } from './LevelMeter';
+import { MeterReading } from '../services/meters';
 
 interface TrackItemProps {
   track: AudioTrack;
+  lanes: Lane[];
+  isSelected: boolean;
   onRemove: (id: string) => void;
-  onStartTimeChange: (id: string, newTime: number) => void;
+  onUpdate: (id: string, changes: Partial<AudioTrack>) => void;
+  meter: MeterReading | null; // Post-fader level while playing
+  onResetClip: () => void;
 }
 
+const formatVolume = (db: number) => (db <= MIN_VOLUME_DB ? '-∞ dB' : `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`);
+
+const formatPan = (pan: number) => {
+  if (Math.abs(pan) < 0.005) return 'C';
+  return `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`;
+};
+
 export const TrackItem: React.FC<TrackItemProps> = ({
   track,
+  lanes,
+  isSelected,
   onRemove,
-  onStartTimeChange,
+  onUpdate,
+  meter,
+  onResetClip,
 }) => {
+  const color = getLaneColor(lanes, track.laneId);
+  // The start time applies on Enter or when the field loses focus, so a
+  // half-typed value never bumps the clip into another lane
+  const [startDraft, setStartDraft] = useState<string | null>(null);
+
+  const commitStart = () => {
+    if (startDraft === null) return;
+    setStartDraft(null);
+    const value = parseFloat(startDraft);
+    if (Number.isFinite(value) && Math.max(0, value) !== track.startTime) {
+      onUpdate(track.id, { startTime: Math.max(0, value) });
+    }
+  };
+
   return (
     <div
-      className="flex flex-col sm:flex-row items-center gap-4 bg-slate-800 p-4 rounded-xl border border-slate-700 shadow-md transition-all hover:border-slate-600 group"
-      style={{ borderLeft: `4px solid ${track.color}` }}
+      className={`bg-slate-800 p-4 rounded-xl border shadow-md transition-all hover:border-slate-600 group space-y-4 ${isSelected ? 'border-blue-500/70' : 'border-slate-700'}`}
+      style={{ borderLeft: `4px solid ${color}` }}
     >
-      <div className="flex items-center justify-center h-12 w-12 rounded-full bg-slate-900 text-slate-400">
-        <Music size={20} style={{ color: track.color }} />
-      </div>
+      <div className="flex flex-col sm:flex-row items-center gap-4">
+        <div className="flex items-center justify-center h-12 w-12 rounded-full bg-slate-900 text-slate-400">
+          <Music size={20} style={{ color: color }} />
+        </div>
+
+        <div className="flex-1 w-full text-center sm:text-left overflow-hidden">
+          <h3 className="font-semibold text-white truncate" title={track.fileName}>
+            {track.fileName}
+          </h3>
+          <p className="text-xs text-slate-400">
+            Duration: {getTrackLength(track).toFixed(2)}s
+            {getTrackLength(track) < track.duration && (
+              <span className="text-slate-500"> (of {track.duration.toFixed(2)}s)</span>
+            )}
+          </p>
+          <div className="mt-2 h-8 w-full sm:max-w-xs rounded bg-slate-900/60 overflow-hidden">
+            <Waveform
+              buffer={track.buffer}
+              startTime={track.trimStart}
+              endTime={track.trimEnd}
+              color={color}
+            />
+          </div>
+          <div className="mt-1.5 w-full sm:max-w-xs">
+            <LevelMeter reading={meter} height={3} onResetClip={onResetClip} />
+          </div>
+        </div>
 
-      <div className="flex-1 w-full text-center sm:text-left overflow-hidden">
-        <h3 className="font-semibold text-white truncate" title={track.fileName}>
-          {track.fileName}
-        </h3>
-        <p className="text-xs text-slate-400">
-          Duration: {track.duration.toFixed(2)}s
-        </p>
+        {/* Mixer controls */}
+        <div className="flex items-center gap-3 w-full sm:w-auto">
+          <div className="flex flex-col">
+            <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">
+              Volume <span className="font-mono normal-case text-slate-400">{formatVolume(track.volume)}</span>
+            </label>
+            <input
+              type="range"
+              min={MIN_VOLUME_DB}
+              max={MAX_VOLUME_DB}
+              step="0.5"
+              value={track.volume}
+              onChange={(e) => onUpdate(track.id, { volume: parseFloat(e.target.value) })}
+              onDoubleClick={() => onUpdate(track.id, { volume: 0 })}
+              className="w-full sm:w-24 accent-blue-500"
+              title="Double-click to reset to 0 dB"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">
+              Pan <span className="font-mono normal-case text-slate-400">{formatPan(track.pan)}</span>
+            </label>
+            <input
+              type="range"
+              min="-1"
+              max="1"
+              step="0.01"
+              value={track.pan}
+              onChange={(e) => onUpdate(track.id, { pan: parseFloat(e.target.value) })}
+              onDoubleClick={() => onUpdate(track.id, { pan: 0 })}
+              className="w-full sm:w-20 accent-blue-500"
+              title="Double-click to center"
+            />
+          </div>
+          <button
+            onClick={() => onUpdate(track.id, { muted: !track.muted })}
+            className={`p-2 rounded-md transition-colors ${track.muted ? 'bg-red-900/40 text-red-400' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-700'}`}
+            title={track.muted ? 'Unmute' : 'Mute'}
+          >
+            {track.muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+          </button>
+          <button
+            onClick={() => onUpdate(track.id, { solo: !track.solo })}
+            className={`p-2 rounded-md transition-colors ${track.solo ? 'bg-amber-900/40 text-amber-400' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-700'}`}
+            title={track.solo ? 'Unsolo' : 'Solo'}
+          >
+            <Headphones size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-col w-full sm:w-auto">
+          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Lane</label>
+          <select
+            value={track.laneId}
+            onChange={(e) => onUpdate(track.id, { laneId: e.target.value })}
+            className="w-full sm:w-28 bg-slate-900 border border-slate-700 text-white text-sm px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {lanes.map(lane => (
+              <option key={lane.id} value={lane.id}>{lane.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <Clock size={16} className="text-slate-500" />
+          <div className="flex flex-col">
+            <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Start Time (s)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={startDraft ?? track.startTime}
+              onChange={(e) => setStartDraft(e.target.value)}
+              onBlur={commitStart}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+                else if (e.key === 'Escape') setStartDraft(null);
+              }}
+              className="w-full sm:w-24 bg-slate-900 border border-slate-700 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <button
+          onClick={() => onRemove(track.id)}
+          className="p-2 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded-full transition-colors"
+          title="Remove Track"
+        >
+          <Trash2 size={18} />
+        </button>
       </div>
 
-      <div className="flex items-center gap-2 w-full sm:w-auto">
-        <Clock size={16} className="text-slate-500" />
-        <div className="flex flex-col">
-          <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Start Time (s)</label>
-          <input
-            type="number"
-            min="0"
-            step="0.1"
-            value={track.startTime}
-            onChange={(e) => onStartTimeChange(track.id, parseFloat(e.target.value) || 0)}
-            className="w-full sm:w-24 bg-slate-900 border border-slate-700 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
+      {/* Clip editing */}
+      <div className="flex flex-wrap items-end gap-6 pt-4 border-t border-slate-700/60">
+        {/* Trim (source in/out points) */}
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <Scissors size={16} className="text-slate-500" />
+          <div className="flex flex-col">
+            <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">In (s)</label>
+            <input
+              type="number"
+              min="0"
+              max={track.trimEnd - MIN_CLIP_LENGTH}
+              step="0.01"
+              value={Number(track.trimStart.toFixed(3))}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value) || 0;
+                onUpdate(track.id, { trimStart: Math.max(0, Math.min(track.trimEnd - MIN_CLIP_LENGTH, value)) });
+              }}
+              className="w-full sm:w-20 bg-slate-900 border border-slate-700 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Out (s)</label>
+            <input
+              type="number"
+              min={track.trimStart + MIN_CLIP_LENGTH}
+              max={track.duration}
+              step="0.01"
+              value={Number(track.trimEnd.toFixed(3))}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value) || 0;
+                onUpdate(track.id, { trimEnd: Math.max(track.trimStart + MIN_CLIP_LENGTH, Math.min(track.duration, value)) });
+              }}
+              className="w-full sm:w-20 bg-slate-900 border border-slate-700 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          {(track.trimStart > 0 || track.trimEnd < track.duration) && (
+            <button
+              onClick={() => onUpdate(track.id, { trimStart: 0, trimEnd: track.duration })}
+              className="p-1 text-slate-500 hover:text-slate-300 hover:bg-slate-700 rounded transition-colors"
+              title="Reset trim"
+            >
+              <RotateCcw size={14} />
+            </button>
+          )}
         </div>
+
+        {/* Fades */}
+        {(['in', 'out'] as const).map(side => {
+          const lengthKey = side === 'in' ? 'fadeIn' : 'fadeOut';
+          const curveKey = side === 'in' ? 'fadeInCurve' : 'fadeOutCurve';
+          return (
+            <div key={side} className="flex items-end gap-2">
+              <div className="flex flex-col">
+                <label className="text-[10px] uppercase font-bold text-slate-500 tracking-wider">Fade {side} (s)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max={getTrackLength(track)}
+                  step="0.05"
+                  value={Number(track[lengthKey].toFixed(3))}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value) || 0;
+                    onUpdate(track.id, { [lengthKey]: Math.max(0, Math.min(getTrackLength(track), value)) });
+                  }}
+                  className="w-full sm:w-20 bg-slate-900 border border-slate-700 text-white px-2 py-1 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <select
+                value={track[curveKey]}
+                onChange={(e) => onUpdate(track.id, { [curveKey]: e.target.value as FadeCurve })}
+                className="bg-slate-900 border border-slate-700 text-white text-xs px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title={`Fade-${side} curve`}
+              >
+                {FADE_CURVES.map(curve => (
+                  <option key={curve.value} value={curve.value}>{curve.label}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
       </div>
 
-      <button
-        onClick={() => onRemove(track.id)}
-        className="p-2 text-slate-500 hover:text-red-400 hover:bg-slate-700 rounded-full transition-colors"
-        title="Remove Track"
-      >
-        <Trash2 size={18} />
-      </button>
+      {/* Insert effects */}
+      <div className="pt-4 border-t border-slate-700/60">
+        <EffectsChain effects={track.effects} onChange={(effects) => onUpdate(track.id, { effects })} />
+      </div>
     </div>
   );
 };
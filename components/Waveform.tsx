@@ -0,0 +1,54 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getPeakPyramid, getPeaks } from '../services/waveform';
+
+interface WaveformProps {
+  buffer: AudioBuffer;
+  startTime: number; // Source offset of the left edge, in seconds
+  endTime: number; // Source offset of the right edge, in seconds
+  color: string;
+  className?: string;
+}
+
+export const Waveform: React.FC<WaveformProps> = ({ buffer, startTime, endTime, color, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Track the rendered size so the canvas is always drawn at device resolution
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width: Math.round(width), height: Math.round(height) });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas: HTMLCanvasElement | null = canvasRef.current;
+    if (!canvas || size.width === 0 || size.height === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * ratio);
+    const height = Math.round(size.height * ratio);
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, width, height);
+
+    const { min, max } = getPeaks(getPeakPyramid(buffer), startTime, endTime, width);
+    const mid = height / 2;
+
+    ctx.fillStyle = color;
+    for (let x = 0; x < width; x++) {
+      const top = mid - max[x] * mid;
+      const bottom = mid - min[x] * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [buffer, startTime, endTime, color, size]);
+
+  return <canvas ref={canvasRef} className={`block w-full h-full ${className}`} />;
+};
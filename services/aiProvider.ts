@@ -0,0 +1,127 @@
+// Provider-neutral requests to models that listen to audio and answer in
+// JSON: the provider interface, typed failures, size checks and retries.
+
+import { createAbortError } from './task';
+
+// JSON Schema for the reply
+export type JsonSchema = Record<string, unknown>;
+
+export interface AudioJsonRequest {
+  audio: Blob; // WAV
+  prompt: string;
+  schemaName: string;
+  schema: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  id: string; // Provider and model; results are only reused for the same id
+  maxAudioBytes: number; // Largest audio file one request can carry
+  generateJson: (request: AudioJsonRequest) => Promise<string>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+// The key is missing or was rejected
+export class ProviderAuthError extends ProviderError {
+  constructor(message: string = 'The API key was rejected. Check it in the AI settings.') {
+    super(message);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+// Rate limit or quota reached
+export class ProviderQuotaError extends ProviderError {
+  constructor(message: string = 'The rate limit or quota of the provider was reached. Try again later.') {
+    super(message);
+    this.name = 'ProviderQuotaError';
+  }
+}
+
+export class ProviderSizeError extends ProviderError {
+  constructor(message: string = 'The audio is too large for one request.') {
+    super(message);
+    this.name = 'ProviderSizeError';
+  }
+}
+
+// The provider could not be reached at all
+export class ProviderNetworkError extends ProviderError {
+  constructor(message: string = 'The provider could not be reached. Check the connection and server address.') {
+    super(message);
+    this.name = 'ProviderNetworkError';
+  }
+}
+
+// The provider failed on its side (5xx)
+export class ProviderServerError extends ProviderError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderServerError';
+  }
+}
+
+// Failed HTTP responses as typed errors
+export const getStatusError = (status: number, detail: string = ''): ProviderError => {
+  if (status === 401 || status === 403) return new ProviderAuthError();
+  if (status === 429) return new ProviderQuotaError();
+  if (status === 413 || (status === 400 && /too large|size|exceed/i.test(detail))) return new ProviderSizeError();
+  if (status >= 500) return new ProviderServerError(`The provider failed with status ${status}. Try again later.`);
+  return new ProviderError(`The provider rejected the request (status ${status})${detail ? `: ${detail}` : '.'}`);
+};
+
+// Failures that may pass if the same request is sent again a little later
+const isRetryable = (error: unknown): boolean =>
+  error instanceof ProviderQuotaError || error instanceof ProviderNetworkError || error instanceof ProviderServerError;
+
+const RETRY_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 16000;
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const readBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// Sends a request after checking it fits, retrying rate limits, network and
+// server failures with exponential backoff
+export const requestJson = async (provider: AiProvider, request: AudioJsonRequest): Promise<string> => {
+  if (request.audio.size > provider.maxAudioBytes) throw new ProviderSizeError();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await provider.generateJson(request);
+    } catch (error) {
+      if (request.signal?.aborted) throw createAbortError();
+      if (!isRetryable(error) || attempt >= RETRY_ATTEMPTS) throw error;
+      // Jitter keeps parallel clients from retrying in lockstep
+      const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      await wait(delay * (0.5 + Math.random() * 0.5), request.signal);
+    }
+  }
+};
@@ -0,0 +1,64 @@
+import { AiProvider, ProviderAuthError } from './aiProvider';
+import { DEFAULT_GEMINI_MODEL, createGeminiClient, createGeminiProvider } from './geminiService';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, createOpenAiProvider } from './openAiProvider';
+
+export type AiProviderKind = 'gemini' | 'openai';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  baseUrl: string; // OpenAI-compatible servers only
+  apiKey: string;
+}
+
+export const AI_PROVIDERS: { value: AiProviderKind; label: string; defaultModel: string }[] = [
+  { value: 'gemini', label: 'Google Gemini', defaultModel: DEFAULT_GEMINI_MODEL },
+  { value: 'openai', label: 'OpenAI-compatible', defaultModel: DEFAULT_OPENAI_MODEL },
+];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: DEFAULT_GEMINI_MODEL,
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  apiKey: '',
+};
+
+// The key is kept in session storage, so it is gone once the tab closes and
+// never ends up in the build. Everything else is remembered across sessions.
+const SETTINGS_STORAGE_KEY = 'sonicweave.ai';
+const KEY_STORAGE_KEY = 'sonicweave.ai.key';
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? '{}');
+    return { ...DEFAULT_AI_SETTINGS, ...saved, apiKey: sessionStorage.getItem(KEY_STORAGE_KEY) ?? '' };
+  } catch (error) {
+    console.error("Error reading AI settings:", error);
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = ({ apiKey, ...settings }: AiSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    if (apiKey) {
+      sessionStorage.setItem(KEY_STORAGE_KEY, apiKey);
+    } else {
+      sessionStorage.removeItem(KEY_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error saving AI settings:", error);
+  }
+};
+
+// Gemini needs a key; local OpenAI-compatible servers often don't
+export const isAiConfigured = (settings: AiSettings): boolean =>
+  settings.model.trim() !== '' && (settings.provider === 'gemini' ? settings.apiKey !== '' : settings.baseUrl.trim() !== '');
+
+export const createProvider = (settings: AiSettings): AiProvider => {
+  if (settings.provider === 'openai') {
+    return createOpenAiProvider({ baseUrl: settings.baseUrl.trim(), model: settings.model.trim(), apiKey: settings.apiKey });
+  }
+  if (!settings.apiKey) throw new ProviderAuthError('Enter a Gemini API key in the AI settings first.');
+  return createGeminiProvider(settings.model.trim(), createGeminiClient(settings.apiKey));
+};
@@ -0,0 +1,190 @@
+// What the model is asked about audio and how its answers are checked: the
+// prompts and JSON schemas for analysis and transcription.
+
+import { TranscriptSegment } from '../types';
+import { AiProvider, JsonSchema, requestJson } from './aiProvider';
+
+// One stretch of the analysed audio. Times are seconds from the start of the
+// audio that was sent.
+export interface AnalysisSegment {
+  start: number;
+  end: number;
+  speaker: string; // Empty for music, effects and silence
+  transcript: string;
+  mood: string;
+}
+
+export interface AudioAnalysis {
+  summary: string;
+  segments: AnalysisSegment[]; // Sorted by start time
+}
+
+export class AnalysisFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnalysisFormatError';
+  }
+}
+
+const timeProperty = (edge: string) => ({
+  type: 'number',
+  description: `${edge} time in seconds from the beginning of the audio`,
+});
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'A few sentences on the content, speakers and overall mood' },
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: timeProperty('Start'),
+          end: timeProperty('End'),
+          speaker: { type: 'string', description: 'Speaker label such as "Speaker 1", or empty when nobody speaks' },
+          transcript: { type: 'string', description: 'Words spoken, or a short description of other sound' },
+          mood: { type: 'string', description: 'One or two words for the mood' },
+        },
+        required: ['start', 'end', 'speaker', 'transcript', 'mood'],
+      },
+    },
+  },
+  required: ['summary', 'segments'],
+};
+
+const TRANSCRIPT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: timeProperty('Start'),
+          end: timeProperty('End'),
+          text: { type: 'string', description: 'The words spoken' },
+        },
+        required: ['start', 'end', 'text'],
+      },
+    },
+  },
+  required: ['segments'],
+};
+
+const buildAnalysisPrompt = (duration: number) =>
+  `This audio is ${duration.toFixed(2)} seconds long. Split it into consecutive segments wherever the speaker, ` +
+  'topic or mood changes. For each segment give its start and end time in seconds, who is speaking, a transcript ' +
+  'of the speech (or a short description of music and other sound) and the mood. Also summarise the whole recording.';
+
+const buildTranscriptPrompt = (duration: number) =>
+  `This audio is ${duration.toFixed(2)} seconds long. Transcribe the speech verbatim as short phrases suitable ` +
+  'for subtitles, at most about seven seconds or two lines each, with the start and end time of each phrase in ' +
+  'seconds. Leave out music and other sound without speech.';
+
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The model's answer as an object with a list of segments
+const readJson = (text: string): { data: JsonObject; segments: unknown[] } => {
+  if (text.trim() === '') throw new AnalysisFormatError('No analysis was generated.');
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new AnalysisFormatError('The analysis was not valid JSON.');
+  }
+  if (!isJsonObject(data) || !Array.isArray(data.segments)) {
+    throw new AnalysisFormatError('The analysis has no list of segments.');
+  }
+  return { data, segments: data.segments };
+};
+
+const readString = (value: unknown, field: string, index: number): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value !== 'string') throw new AnalysisFormatError(`Segment ${index + 1} has an invalid ${field}.`);
+  return value.trim();
+};
+
+// Validates each segment's times and reads the rest with `read`. Times are
+// clamped to the audio, and segments left empty by that are dropped.
+const readSegments = <T extends { start: number; end: number }>(
+  segments: unknown[],
+  duration: number,
+  read: (segment: JsonObject, index: number, start: number, end: number) => T
+): T[] => {
+  const result: T[] = [];
+  segments.forEach((segment, index) => {
+    if (!isJsonObject(segment)) throw new AnalysisFormatError(`Segment ${index + 1} is not an object.`);
+    const { start, end } = segment;
+    if (typeof start !== 'number' || typeof end !== 'number' || !Number.isFinite(start) || !Number.isFinite(end)) {
+      throw new AnalysisFormatError(`Segment ${index + 1} has no valid start and end time.`);
+    }
+
+    const clampedStart = Math.max(0, Math.min(duration, start));
+    const clampedEnd = Math.max(0, Math.min(duration, end));
+    if (clampedEnd > clampedStart) result.push(read(segment, index, clampedStart, clampedEnd));
+  });
+  return result.sort((a, b) => a.start - b.start);
+};
+
+// Checks the model's JSON against the analysis schema
+export const parseAnalysis = (text: string, duration: number): AudioAnalysis => {
+  const { data, segments } = readJson(text);
+  return {
+    summary: typeof data.summary === 'string' ? data.summary.trim() : '',
+    segments: readSegments(segments, duration, (segment, index, start, end) => ({
+      start,
+      end,
+      speaker: readString(segment.speaker, 'speaker', index),
+      transcript: readString(segment.transcript, 'transcript', index),
+      mood: readString(segment.mood, 'mood', index),
+    })),
+  };
+};
+
+// Checks the model's JSON against the transcript schema. Phrases without
+// words are dropped.
+export const parseTranscript = (text: string, duration: number): TranscriptSegment[] =>
+  readSegments(readJson(text).segments, duration, (segment, index, start, end) => ({
+    start,
+    end,
+    text: readString(segment.text, 'text', index),
+  })).filter(segment => segment.text !== '');
+
+// Timestamped segments of the audio. `duration` is its length in seconds.
+export const analyzeAudio = async (
+  provider: AiProvider,
+  audio: Blob,
+  duration: number,
+  signal?: AbortSignal
+): Promise<AudioAnalysis> => {
+  const text = await requestJson(provider, {
+    audio,
+    prompt: buildAnalysisPrompt(duration),
+    schemaName: 'audio_analysis',
+    schema: ANALYSIS_SCHEMA,
+    signal,
+  });
+  return parseAnalysis(text, duration);
+};
+
+// Phrase-level transcript of the speech in the audio. The audio has to fit
+// one request; longer recordings are split by the caller.
+export const transcribeAudio = async (
+  provider: AiProvider,
+  audio: Blob,
+  duration: number,
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> => {
+  const text = await requestJson(provider, {
+    audio,
+    prompt: buildTranscriptPrompt(duration),
+    schemaName: 'transcript',
+    schema: TRANSCRIPT_SCHEMA,
+    signal,
+  });
+  return parseTranscript(text, duration);
+};
@@ -0,0 +1,186 @@
+// AI analysis of part of the arrangement: choosing and rendering the audio,
+// fitting it into requests, caching results by content, and placing them on
+// the timeline.
+
+import { AudioTrack, LoopRegion, TimelineMarker, TranscriptSegment } from '../types';
+import { AiProvider } from './aiProvider';
+import { AnalysisSegment, AudioAnalysis, analyzeAudio, transcribeAudio } from './analysisRequests';
+import { DEFAULT_EXPORT_SETTINGS, ExportSettings } from './exportAudio';
+import { TaskControl, subTask } from './task';
+import { getArrangementDuration, getTrackLength, isTrackAudible } from './trackUtils';
+
+export type AnalysisScope =
+  | { type: 'clip'; trackId: string }
+  | { type: 'range'; region: LoopRegion }
+  | { type: 'mix' };
+
+// Audio to analyse, rendered from `tracks`, which starts `offset` seconds
+// into the timeline
+export interface AnalysisSource {
+  tracks: AudioTrack[];
+  offset: number;
+  duration: number;
+  label: string;
+}
+
+// Renders clips to audio with the given settings
+export type RenderAudio = (tracks: AudioTrack[], settings: ExportSettings, control?: TaskControl) => Promise<Blob>;
+
+// Speech models gain nothing from more than 16 kHz mono, and it keeps the
+// request small
+export const ANALYSIS_EXPORT_SETTINGS: ExportSettings = {
+  ...DEFAULT_EXPORT_SETTINGS,
+  container: 'wav',
+  format: 'pcm16',
+  sampleRate: 16000,
+  channels: 1,
+  dither: false,
+  embedMarkers: false,
+};
+
+// Rates tried in turn when audio is too long for one request at 16 kHz
+const ANALYSIS_SAMPLE_RATES = [16000, 8000];
+
+// Room for the WAV header
+const WAV_OVERHEAD_BYTES = 1024;
+
+// Longest 16-bit mono audio, in seconds, that fits `maxAudioBytes`
+export const getMaxRequestSeconds = (maxAudioBytes: number, sampleRate: number): number =>
+  Math.floor((maxAudioBytes - WAV_OVERHEAD_BYTES) / (sampleRate * 2));
+
+// Speaker colours for timeline markers, in order of first appearance
+const MARKER_COLORS = ['#f59e0b', '#10b981', '#ec4899', '#8b5cf6', '#06b6d4', '#84cc16'];
+const UNNAMED_MARKER_COLOR = '#64748b';
+
+// Cuts the audible clips down to the region, shifted so it starts at zero.
+// Fades cut in half are dropped rather than rescaled.
+const cropToRegion = (tracks: AudioTrack[], region: LoopRegion): AudioTrack[] =>
+  tracks
+    .filter(t => isTrackAudible(t, tracks))
+    .filter(t => t.startTime < region.end && t.startTime + getTrackLength(t) > region.start)
+    .map(t => {
+      const cutStart = Math.max(0, region.start - t.startTime);
+      const cutEnd = Math.max(0, t.startTime + getTrackLength(t) - region.end);
+      return {
+        ...t,
+        solo: false,
+        startTime: Math.max(0, t.startTime - region.start),
+        trimStart: t.trimStart + cutStart,
+        trimEnd: t.trimEnd - cutEnd,
+        fadeIn: cutStart > 0 ? 0 : t.fadeIn,
+        fadeOut: cutEnd > 0 ? 0 : t.fadeOut,
+      };
+    });
+
+export const getAnalysisSource = (tracks: AudioTrack[], scope: AnalysisScope): AnalysisSource | null => {
+  let source: Omit<AnalysisSource, 'duration'>;
+  switch (scope.type) {
+    case 'clip': {
+      const track = tracks.find(t => t.id === scope.trackId);
+      if (!track) return null;
+      source = {
+        tracks: [{ ...track, startTime: 0, muted: false, solo: false }],
+        offset: track.startTime,
+        label: track.fileName,
+      };
+      break;
+    }
+    case 'range':
+      source = { tracks: cropToRegion(tracks, scope.region), offset: scope.region.start, label: 'Loop region' };
+      break;
+    case 'mix':
+      source = { tracks, offset: 0, label: 'Full mix' };
+      break;
+  }
+  const duration = getArrangementDuration(source.tracks);
+  return duration > 0 ? { ...source, duration } : null;
+};
+
+const hashAudio = async (audio: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await audio.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Analyses and transcribes rendered audio, reusing the result whenever the
+// same provider gets the same audio again. A mock provider can stand in for
+// a live one.
+export const createAudioAnalyzer = () => {
+  const cache = new Map<string, unknown>();
+
+  const cached = async <T>(kind: string, provider: AiProvider, audio: Blob, request: () => Promise<T>): Promise<T> => {
+    const key = `${kind}:${provider.id}:${await hashAudio(audio)}`;
+    if (cache.has(key)) return cache.get(key) as T;
+
+    const result = await request();
+    cache.set(key, result);
+    return result;
+  };
+
+  return {
+    analyze: (provider: AiProvider, audio: Blob, duration: number, signal?: AbortSignal): Promise<AudioAnalysis> =>
+      cached('analysis', provider, audio, () => analyzeAudio(provider, audio, duration, signal)),
+
+    transcribe: (provider: AiProvider, audio: Blob, duration: number, signal?: AbortSignal): Promise<TranscriptSegment[]> =>
+      cached('transcript', provider, audio, () => transcribeAudio(provider, audio, duration, signal)),
+  };
+};
+
+export type AudioAnalyzer = ReturnType<typeof createAudioAnalyzer>;
+
+const offsetSegments = (segments: AnalysisSegment[], offset: number): AnalysisSegment[] =>
+  segments.map(s => ({ ...s, start: s.start + offset, end: s.end + offset }));
+
+// Analyses the source at 16 kHz when it fits one request, at a lower rate
+// when only that fits, and otherwise in equal parts that are joined back
+// together. Segment times come back on the timeline.
+export const analyzeSource = async (
+  source: AnalysisSource,
+  render: RenderAudio,
+  provider: AiProvider,
+  analyzer: AudioAnalyzer,
+  control?: TaskControl
+): Promise<AudioAnalysis> => {
+  const lowestRate = ANALYSIS_SAMPLE_RATES[ANALYSIS_SAMPLE_RATES.length - 1];
+  const sampleRate =
+    ANALYSIS_SAMPLE_RATES.find(rate => source.duration <= getMaxRequestSeconds(provider.maxAudioBytes, rate)) ?? lowestRate;
+  const settings = { ...ANALYSIS_EXPORT_SETTINGS, sampleRate };
+  const count = Math.ceil(source.duration / getMaxRequestSeconds(provider.maxAudioBytes, sampleRate));
+  const partLength = source.duration / count;
+
+  const summaries: string[] = [];
+  const segments: AnalysisSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const from = i * partLength;
+    const tracks = count === 1 ? source.tracks : cropToRegion(source.tracks, { start: from, end: from + partLength });
+    const duration = getArrangementDuration(tracks);
+    if (duration === 0) continue;
+
+    const audio = await render(tracks, settings, subTask(control, i / count, (i + 0.5) / count));
+    control?.onProgress?.((i + 0.5) / count);
+    const result = await analyzer.analyze(provider, audio, duration, control?.signal);
+    if (result.summary) summaries.push(result.summary);
+    segments.push(...offsetSegments(result.segments, source.offset + from));
+  }
+  control?.onProgress?.(1);
+  return { summary: summaries.join(' '), segments };
+};
+
+const describeSegment = (segment: AnalysisSegment): string =>
+  [segment.speaker, segment.mood && `(${segment.mood})`].filter(Boolean).join(' ') +
+  (segment.transcript ? `: ${segment.transcript}` : '');
+
+export const getAnalysisMarkers = (segments: AnalysisSegment[]): TimelineMarker[] => {
+  const speakers: string[] = [];
+  return segments.map((segment, index) => {
+    if (segment.speaker && !speakers.includes(segment.speaker)) speakers.push(segment.speaker);
+    const speakerIndex = speakers.indexOf(segment.speaker);
+    return {
+      id: `analysis-${index}`,
+      start: segment.start,
+      end: segment.end,
+      label: segment.speaker || segment.mood || segment.transcript,
+      detail: describeSegment(segment),
+      color: speakerIndex === -1 ? UNNAMED_MARKER_COLOR : MARKER_COLORS[speakerIndex % MARKER_COLORS.length],
+    };
+  });
+};
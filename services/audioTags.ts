@@ -0,0 +1,41 @@
+// Descriptive metadata embedded in exported files
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+}
+
+const VENDOR = 'SonicWeave';
+
+const textEncoder = new TextEncoder();
+
+export const encodeUtf8 = (value: string): Uint8Array => textEncoder.encode(value);
+
+// Serializes tags as a Vorbis comment block (vendor string plus FIELD=value
+// entries, little-endian lengths). FLAC and Ogg Opus both embed this layout.
+export const encodeVorbisComment = (tags: AudioTags): Uint8Array => {
+  const comments = [
+    { field: 'TITLE', value: tags.title?.trim() },
+    { field: 'ARTIST', value: tags.artist?.trim() },
+  ]
+    .filter(comment => comment.value)
+    .map(comment => encodeUtf8(`${comment.field}=${comment.value}`));
+  const vendor = encodeUtf8(VENDOR);
+
+  const size = 4 + vendor.length + 4 + comments.reduce((sum, comment) => sum + 4 + comment.length, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const writeString = (value: Uint8Array) => {
+    view.setUint32(offset, value.length, true);
+    bytes.set(value, offset + 4);
+    offset += 4 + value.length;
+  };
+
+  writeString(vendor);
+  view.setUint32(offset, comments.length, true);
+  offset += 4;
+  comments.forEach(writeString);
+
+  return bytes;
+};
@@ -0,0 +1,128 @@
+// Automatic ducking: wherever the voice lane is speaking, the music lane's
+// clips get a volume envelope that dips by a set depth, easing in over the
+// attack before the voice starts and back out over the release after it stops.
+
+import { AudioTrack, AutomationPoint } from '../types';
+import { getEnvelopeDb } from './automation';
+import { TaskControl, createCheckpoint } from './task';
+
+export interface DuckSettings {
+  threshold: number; // dBFS level above which the voice counts as speaking
+  depth: number; // dB the music is lowered by
+  attack: number; // ms
+  release: number; // ms
+}
+
+export const DEFAULT_DUCK_SETTINGS: DuckSettings = {
+  threshold: -40,
+  depth: 12,
+  attack: 200,
+  release: 500,
+};
+
+// Length of the windows the voice level is measured over
+const WINDOW_SECONDS = 0.01;
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+// Timeline intervals where any unmuted clip on `clips` is above the threshold
+const findVoiceActivity = async (
+  clips: AudioTrack[],
+  threshold: number,
+  control?: TaskControl
+): Promise<Interval[]> => {
+  const checkpoint = createCheckpoint(control);
+  const intervals: Interval[] = [];
+
+  for (const [index, clip] of clips.entries()) {
+    const { buffer } = clip;
+    const size = Math.max(1, Math.round(WINDOW_SECONDS * buffer.sampleRate));
+    const first = Math.floor(clip.trimStart * buffer.sampleRate);
+    const last = Math.min(buffer.length, Math.ceil(clip.trimEnd * buffer.sampleRate));
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+    // Compare mean square against the threshold, taking the clip volume into account
+    const limit = Math.pow(10, (threshold - clip.volume) / 10);
+
+    let open: Interval | null = null;
+    for (let start = first; start < last; start += size) {
+      if ((start - first) % (size * 1000) === 0) await checkpoint((index + (start - first) / (last - first)) / clips.length);
+      const end = Math.min(last, start + size);
+      let sum = 0;
+      for (const channel of channels) {
+        for (let i = start; i < end; i++) sum += channel[i] * channel[i];
+      }
+      const active = sum / ((end - start) * channels.length) > limit;
+      const time = clip.startTime + (start / buffer.sampleRate - clip.trimStart);
+      if (active && !open) open = { start: time, end: time };
+      if (active) open!.end = clip.startTime + (end / buffer.sampleRate - clip.trimStart);
+      if (!active && open) {
+        intervals.push(open);
+        open = null;
+      }
+    }
+    if (open) intervals.push(open);
+  }
+
+  control?.onProgress?.(1);
+  return intervals.sort((a, b) => a.start - b.start);
+};
+
+// Ducking envelope on the timeline. Pauses too short for the music to come
+// back up and dip again are bridged, so the music doesn't pump between words.
+const buildDuckEnvelope = (activity: Interval[], settings: DuckSettings): AutomationPoint[] => {
+  const attack = settings.attack / 1000;
+  const release = settings.release / 1000;
+
+  const merged: Interval[] = [];
+  for (const interval of activity) {
+    const previous = merged[merged.length - 1];
+    if (previous && interval.start - previous.end < attack + release) {
+      previous.end = Math.max(previous.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+
+  return merged.flatMap(({ start, end }) => [
+    { time: Math.max(0, start - attack), gain: 0 },
+    { time: start, gain: -settings.depth },
+    { time: end, gain: -settings.depth },
+    { time: end + release, gain: 0 },
+  ]);
+};
+
+// Cuts the part of a timeline envelope covering `clip` out of it, in the
+// clip's source time. Levels at the clip edges are kept as points, and a clip
+// the envelope leaves alone gets no envelope at all.
+const toClipEnvelope = (envelope: AutomationPoint[], clip: AudioTrack): AutomationPoint[] => {
+  const start = clip.startTime;
+  const end = clip.startTime + (clip.trimEnd - clip.trimStart);
+  const inside = envelope.filter(point => point.time > start && point.time < end);
+  const points = [
+    { time: start, gain: getEnvelopeDb(envelope, start) },
+    ...inside,
+    { time: end, gain: getEnvelopeDb(envelope, end) },
+  ];
+  if (points.every(point => point.gain === 0)) return [];
+  return points.map(point => ({ time: clip.trimStart + (point.time - clip.startTime), gain: point.gain }));
+};
+
+// New volume envelopes for every clip on the music lane, keyed by clip id.
+// Existing envelopes on those clips are replaced.
+export const createDuckEnvelopes = async (
+  tracks: AudioTrack[],
+  voiceLaneId: string,
+  musicLaneId: string,
+  settings: DuckSettings,
+  control?: TaskControl
+): Promise<Record<string, AutomationPoint[]>> => {
+  const voice = tracks.filter(t => t.laneId === voiceLaneId && !t.muted);
+  const activity = await findVoiceActivity(voice, settings.threshold, control);
+  const envelope = buildDuckEnvelope(activity, settings);
+  return Object.fromEntries(
+    tracks.filter(t => t.laneId === musicLaneId).map(t => [t.id, toClipEnvelope(envelope, t)] as const)
+  );
+};
@@ -0,0 +1,50 @@
+import { AutomationPoint } from '../types';
+
+// Range envelope points can be dragged over. The floor is not silence, so
+// gain can always be ramped exponentially between points.
+export const AUTOMATION_MIN_DB = -60;
+export const AUTOMATION_MAX_DB = 6;
+
+export const clampAutomationDb = (db: number) => Math.max(AUTOMATION_MIN_DB, Math.min(AUTOMATION_MAX_DB, db));
+
+export const automationDbToGain = (db: number) => Math.pow(10, clampAutomationDb(db) / 20);
+
+// Envelope value in dB at source time `time`
+export const getEnvelopeDb = (points: AutomationPoint[], time: number): number => {
+  if (points.length === 0) return 0;
+  if (time <= points[0].time) return points[0].gain;
+  const last = points[points.length - 1];
+  if (time >= last.time) return last.gain;
+
+  // First point after `time`
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].time > time) high = mid;
+    else low = mid + 1;
+  }
+  const a = points[low - 1];
+  const b = points[low];
+  const t = b.time > a.time ? (time - a.time) / (b.time - a.time) : 1;
+  return a.gain + (b.gain - a.gain) * t;
+};
+
+// Linear gain of a clip's envelope at each frame counted from the clip's
+// first sample, or null when the clip has no envelope
+export const createAutomationGain = (
+  points: AutomationPoint[],
+  trimStart: number,
+  sampleRate: number
+): ((frame: number) => number) | null => {
+  if (points.length === 0) return null;
+  return frame => automationDbToGain(getEnvelopeDb(points, trimStart + frame / sampleRate));
+};
+
+// Inserts a point, keeping the envelope sorted. Returns the new envelope and
+// the point's index.
+export const insertEnvelopePoint = (points: AutomationPoint[], point: AutomationPoint) => {
+  const index = points.findIndex(p => p.time > point.time);
+  const at = index === -1 ? points.length : index;
+  return { points: [...points.slice(0, at), point, ...points.slice(at)], index: at };
+};
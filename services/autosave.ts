@@ -0,0 +1,101 @@
+import { ProjectFile } from './projectFile';
+
+const DB_NAME = 'sonicweave';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const SOURCE_STORE = 'sources';
+const AUTOSAVE_KEY = 'autosave';
+
+// The arrangement is stored with audio referenced by source id, and the
+// source files themselves stored alongside as Blobs
+export interface AutosaveRecord {
+  project: ProjectFile;
+  files: Record<string, Blob>;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+      if (!db.objectStoreNames.contains(SOURCE_STORE)) db.createObjectStore(SOURCE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs `operation` in one transaction over both stores and resolves with
+// whatever it produced once the transaction has committed, so a crash
+// mid-write leaves the previous autosave intact rather than a partial one
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (sessions: IDBObjectStore, sources: IDBObjectStore) => () => T
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction([SESSION_STORE, SOURCE_STORE], mode);
+      const result = operation(transaction.objectStore(SESSION_STORE), transaction.objectStore(SOURCE_STORE));
+      transaction.oncomplete = () => resolve(result());
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Saves the project and any source file not stored yet. Source ids must stay
+// the same for the same file, so an edit only rewrites the project itself.
+// Files the project no longer uses are deleted.
+export const writeAutosave = async (project: ProjectFile, files: Map<string, Blob>): Promise<void> => {
+  await runTransaction('readwrite', (sessions, sources) => {
+    const keys = sources.getAllKeys();
+    keys.onsuccess = () => {
+      const stored = new Set(keys.result.map(String));
+      stored.forEach(id => {
+        if (!files.has(id)) sources.delete(id);
+      });
+      files.forEach((blob, id) => {
+        if (!stored.has(id)) sources.put(blob, id);
+      });
+    };
+    sessions.put(project, AUTOSAVE_KEY);
+    return () => undefined;
+  });
+};
+
+export const readAutosave = async (): Promise<AutosaveRecord | null> => {
+  return runTransaction('readonly', (sessions, sources) => {
+    let record: AutosaveRecord | null = null;
+    const request = sessions.get(AUTOSAVE_KEY);
+    request.onsuccess = () => {
+      const stored: ProjectFile | AutosaveRecord | undefined = request.result;
+      if (!stored) return;
+      // Sessions saved before sources had a store of their own carry their files
+      if ('files' in stored) {
+        record = stored;
+        return;
+      }
+      const current: AutosaveRecord = { project: stored, files: {} };
+      record = current;
+      for (const source of stored.sources) {
+        const file = sources.get(source.id);
+        file.onsuccess = () => {
+          if (file.result) current.files[source.id] = file.result;
+        };
+      }
+    };
+    return () => record;
+  });
+};
+
+export const clearAutosave = async (): Promise<void> => {
+  await runTransaction('readwrite', (sessions, sources) => {
+    sessions.delete(AUTOSAVE_KEY);
+    sources.clear();
+    return () => undefined;
+  });
+};
@@ -0,0 +1,145 @@
+import { Arrangement, AudioTrack } from '../types';
+import { generateId, getTrackLength, MIN_CLIP_LENGTH } from './trackUtils';
+import { resolveLaneConflicts } from './lanes';
+
+// Assembly edits on the arrangement. Each returns the new arrangement plus
+// the ids of the clips the edit produced, which become the selection.
+export interface EditResult {
+  arrangement: Arrangement;
+  ids: string[];
+}
+
+// Clips starting this close to the end of a removed clip count as following it
+const RIPPLE_EPSILON = 1e-6;
+
+const getSpan = (tracks: AudioTrack[]) => ({
+  start: Math.min(...tracks.map(t => t.startTime)),
+  end: Math.max(...tracks.map(t => t.startTime + getTrackLength(t))),
+});
+
+// Splits each of the given clips that spans `time` into two independent
+// clips. The left part keeps the fade-in, the right part the fade-out.
+// Clips where either part would be shorter than MIN_CLIP_LENGTH are skipped.
+export const splitClips = (arrangement: Arrangement, ids: string[], time: number): EditResult => {
+  const produced: string[] = [];
+  const tracks: AudioTrack[] = [];
+
+  for (const track of arrangement.tracks) {
+    const offset = time - track.startTime;
+    if (!ids.includes(track.id) || offset < MIN_CLIP_LENGTH || getTrackLength(track) - offset < MIN_CLIP_LENGTH) {
+      tracks.push(track);
+      continue;
+    }
+
+    const cut = track.trimStart + offset;
+    const left: AudioTrack = { ...track, trimEnd: cut, fadeIn: Math.min(track.fadeIn, offset), fadeOut: 0 };
+    const right: AudioTrack = {
+      ...track,
+      id: generateId(),
+      startTime: time,
+      trimStart: cut,
+      fadeIn: 0,
+      fadeOut: Math.min(track.fadeOut, track.trimEnd - cut),
+    };
+    tracks.push(left, right);
+    produced.push(track.id, right.id);
+  }
+
+  return { arrangement: { ...arrangement, tracks }, ids: produced };
+};
+
+// Copies of `clips` placed with their earliest start at `time`, keeping their
+// spacing and lanes. Copies landing on occupied space move to a free lane.
+export const pasteClips = (arrangement: Arrangement, clips: AudioTrack[], time: number): EditResult => {
+  if (clips.length === 0) return { arrangement, ids: [] };
+
+  const { start } = getSpan(clips);
+  const fallbackLane = arrangement.lanes[0]?.id;
+  const copies = clips.map(clip => ({
+    ...clip,
+    id: generateId(),
+    startTime: Math.max(0, time + clip.startTime - start),
+    laneId: arrangement.lanes.some(l => l.id === clip.laneId) ? clip.laneId : fallbackLane,
+  }));
+  const ids = copies.map(t => t.id);
+
+  return {
+    arrangement: resolveLaneConflicts({ ...arrangement, tracks: [...arrangement.tracks, ...copies] }, ids),
+    ids,
+  };
+};
+
+// Copies of the given clips placed straight after the end of the group
+export const duplicateClips = (arrangement: Arrangement, ids: string[]): EditResult => {
+  const clips = arrangement.tracks.filter(t => ids.includes(t.id));
+  if (clips.length === 0) return { arrangement, ids: [] };
+  return pasteClips(arrangement, clips, getSpan(clips).end);
+};
+
+// Removes the given clips. With `ripple`, later clips on the same lane move
+// left to close each gap; other lanes are left alone, so nothing can end up
+// overlapping.
+export const deleteClips = (arrangement: Arrangement, ids: string[], ripple: boolean): Arrangement => {
+  const removed = arrangement.tracks.filter(t => ids.includes(t.id));
+  let tracks = arrangement.tracks.filter(t => !ids.includes(t.id));
+
+  if (ripple) {
+    // Latest gap first: closing it only moves clips after it, so the
+    // positions of the earlier removed clips still hold
+    const ordered = [...removed].sort((a, b) => b.startTime - a.startTime);
+    for (const clip of ordered) {
+      const length = getTrackLength(clip);
+      const end = clip.startTime + length;
+      tracks = tracks.map(t =>
+        t.laneId === clip.laneId && t.startTime >= end - RIPPLE_EPSILON
+          ? { ...t, startTime: Math.max(0, t.startTime - length) }
+          : t
+      );
+    }
+  }
+
+  return { ...arrangement, tracks };
+};
+
+export type ArrangeMode = 'gap' | 'crossfade';
+
+export interface ArrangeSettings {
+  mode: ArrangeMode;
+  seconds: number; // Length of each gap or crossfade
+}
+
+export const DEFAULT_ARRANGE_SETTINGS: ArrangeSettings = { mode: 'gap', seconds: 0.5 };
+
+// Lays the given clips out back to back in their current order, starting
+// where the first one is, with a fixed gap or crossfade between neighbours.
+// Crossfaded clips overlap, so every second one moves to a free lane, and the
+// joined edges get fades the length of the overlap. A crossfade never takes
+// more than half of either clip.
+export const arrangeClips = (arrangement: Arrangement, ids: string[], settings: ArrangeSettings): EditResult => {
+  const laneOrder = (track: AudioTrack) => arrangement.lanes.findIndex(l => l.id === track.laneId);
+  const clips = arrangement.tracks
+    .filter(t => ids.includes(t.id))
+    .sort((a, b) => a.startTime - b.startTime || laneOrder(a) - laneOrder(b));
+  if (clips.length < 2) return { arrangement, ids: [] };
+
+  const placed: AudioTrack[] = [clips[0]];
+  for (const clip of clips.slice(1)) {
+    const previous = placed[placed.length - 1];
+    const end = previous.startTime + getTrackLength(previous);
+    if (settings.mode === 'gap') {
+      placed.push({ ...clip, startTime: end + settings.seconds });
+      continue;
+    }
+
+    const overlap = Math.min(settings.seconds, getTrackLength(previous) / 2, getTrackLength(clip) / 2);
+    placed[placed.length - 1] = { ...previous, fadeOut: overlap };
+    placed.push({ ...clip, startTime: Math.max(0, end - overlap), fadeIn: overlap });
+  }
+
+  // Moving every second clip first leaves the others where they are
+  const byId = new Map(placed.map(t => [t.id, t]));
+  const order = placed.map(t => t.id);
+  const alternating = [...order.filter((_, i) => i % 2 === 1), ...order.filter((_, i) => i % 2 === 0)];
+  const tracks = arrangement.tracks.map(t => byId.get(t.id) ?? t);
+  return { arrangement: resolveLaneConflicts({ ...arrangement, tracks }, alternating), ids: order };
+};
@@ -0,0 +1,273 @@
+// Cue lists: importing subtitle-style timings (SRT, WebVTT, CSV) to place
+// clips, and exporting the arrangement's clip boundaries for other tools.
+
+import { Arrangement, AudioTrack, ClipSettings, Lane } from '../types';
+import { EditResult } from './clipEditing';
+import { resolveLaneConflicts } from './lanes';
+import { getTrackLength, isTrackAudible } from './trackUtils';
+import { parseTimecode } from './timecode';
+
+export interface Cue {
+  start: number; // Seconds
+  end: number | null; // Seconds, when the source gives one
+  label: string;
+}
+
+export class CueFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CueFormatError';
+  }
+}
+
+export type CueMapping = 'name' | 'order';
+
+export const CUE_MAPPINGS: { value: CueMapping; label: string }[] = [
+  { value: 'name', label: 'By file name' },
+  { value: 'order', label: 'In order' },
+];
+
+// A cue and the clip it places, if any
+export interface CueAssignment {
+  cue: Cue;
+  trackId: string | null;
+}
+
+export const CUE_FILE_ACCEPT = '.srt,.vtt,.csv,text/vtt,text/csv';
+
+// CD frames per second, the time base of CUE sheets
+const CUE_SHEET_FPS = 75;
+
+// Subtitle timestamps use a comma (SRT) or a dot (WebVTT) before the milliseconds
+const parseCueTime = (text: string): number | null => parseTimecode(text.replace(',', '.'));
+
+// SRT and WebVTT share the block layout: cues are separated by blank lines,
+// and each has a "start --> end" line followed by its text. Blocks without a
+// timing line (the WEBVTT header, NOTE, STYLE, numbering alone) are skipped.
+const parseSubtitles = (text: string): Cue[] => {
+  const cues: Cue[] = [];
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/).map(line => line.trim());
+    const timing = lines.findIndex(line => line.includes('-->'));
+    if (timing === -1) continue;
+
+    // WebVTT allows cue settings after the end time
+    const [startText, rest] = lines[timing].split('-->');
+    const start = parseCueTime(startText);
+    const end = parseCueTime(rest.trim().split(/\s+/)[0] ?? '');
+    if (start === null) throw new CueFormatError(`Unreadable cue time "${startText.trim()}".`);
+
+    const label = lines
+      .slice(timing + 1)
+      .join(' ')
+      .replace(/<[^>]*>/g, '')
+      .trim();
+    cues.push({ start, end, label });
+  }
+  return cues;
+};
+
+// Splits one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const CSV_START_COLUMNS = ['start', 'start time', 'time', 'in', 'timecode'];
+const CSV_END_COLUMNS = ['end', 'end time', 'out'];
+const CSV_DURATION_COLUMNS = ['duration', 'length'];
+const CSV_LABEL_COLUMNS = ['label', 'name', 'title', 'file', 'filename', 'file name', 'clip', 'text'];
+
+// CSV with a header naming its columns, or without one: start time first,
+// optionally an end time, and the label last
+const parseCsv = (text: string): Cue[] => {
+  const rows = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(splitCsvLine);
+  if (rows.length === 0) return [];
+
+  const hasHeader = rows[0].every(field => parseCueTime(field) === null);
+  const header = hasHeader ? rows[0].map(field => field.toLowerCase()) : [];
+  const column = (names: string[]) => header.findIndex(name => names.includes(name));
+  const startColumn = hasHeader ? column(CSV_START_COLUMNS) : 0;
+  const endColumn = hasHeader ? column(CSV_END_COLUMNS) : -1;
+  const durationColumn = hasHeader ? column(CSV_DURATION_COLUMNS) : -1;
+  const labelColumn = hasHeader ? column(CSV_LABEL_COLUMNS) : -1;
+  if (startColumn === -1) throw new CueFormatError('The CSV file has no start time column.');
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, index) => {
+    const start = parseCueTime(row[startColumn] ?? '');
+    if (start === null) throw new CueFormatError(`Row ${index + 1} has no readable start time.`);
+
+    let end = endColumn !== -1 ? parseCueTime(row[endColumn] ?? '') : null;
+    if (end === null && durationColumn !== -1) {
+      const duration = parseCueTime(row[durationColumn] ?? '');
+      if (duration !== null) end = start + duration;
+    }
+    // Without a header, a second time column is the end time
+    if (!hasHeader && row.length > 2) end = parseCueTime(row[1]);
+
+    const label = labelColumn !== -1 ? row[labelColumn] ?? '' : row.length > 1 ? row[row.length - 1] : '';
+    return { start, end, label };
+  });
+};
+
+// Reads a cue list, telling the format from the file name or, failing
+// that, the content
+export const parseCueFile = (text: string, fileName: string): Cue[] => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  const content = text.replace(/^\uFEFF/, '');
+  const isSubtitle =
+    extension === 'srt' || extension === 'vtt' || (extension !== 'csv' && (content.startsWith('WEBVTT') || content.includes('-->')));
+
+  const cues = isSubtitle ? parseSubtitles(content) : parseCsv(content);
+  if (cues.length === 0) throw new CueFormatError('No cues were found in the file.');
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+const baseName = (name: string) => name.trim().toLowerCase().replace(/\.[^./\\]+$/, '');
+
+// Clips in timeline order: by start time, then by lane
+const sortClips = <T extends ClipSettings>(tracks: T[], lanes: Lane[]) => {
+  const laneIndex = (track: T) => lanes.findIndex(l => l.id === track.laneId);
+  return [...tracks].sort((a, b) => a.startTime - b.startTime || laneIndex(a) - laneIndex(b));
+};
+
+// Pairs cues with clips. By name, a cue whose label is a clip's file name
+// (with or without extension) takes the earliest unused clip of that file;
+// in order, the nth cue takes the nth clip on the timeline.
+export const assignCues = (cues: Cue[], arrangement: Arrangement, mapping: CueMapping): CueAssignment[] => {
+  const clips = sortClips(arrangement.tracks, arrangement.lanes);
+  const used = new Set<string>();
+
+  return cues.map((cue, index) => {
+    let clip: AudioTrack | undefined;
+    if (mapping === 'order') {
+      clip = clips[index];
+    } else {
+      const name = baseName(cue.label);
+      clip = clips.find(t => !used.has(t.id) && name !== '' && baseName(t.fileName) === name);
+    }
+    if (clip) used.add(clip.id);
+    return { cue, trackId: clip?.id ?? null };
+  });
+};
+
+// Moves each assigned clip to its cue's start. Clips that end up overlapping
+// a neighbour move to a free lane.
+export const applyCues = (arrangement: Arrangement, assignments: CueAssignment[]): EditResult => {
+  const starts = new Map<string, number>();
+  for (const { cue, trackId } of assignments) {
+    if (trackId) starts.set(trackId, Math.max(0, cue.start));
+  }
+  const ids = [...starts.keys()];
+  const tracks = arrangement.tracks.map(t => (starts.has(t.id) ? { ...t, startTime: starts.get(t.id)! } : t));
+  return { arrangement: resolveLaneConflicts({ ...arrangement, tracks }, ids), ids };
+};
+
+// One cue per audible clip, in timeline order, labelled with the file name
+export const getArrangementCues = (arrangement: { lanes: Lane[]; tracks: ClipSettings[] }): Cue[] =>
+  sortClips(arrangement.tracks.filter(t => isTrackAudible(t, arrangement.tracks)), arrangement.lanes).map(t => ({
+    start: t.startTime,
+    end: t.startTime + getTrackLength(t),
+    label: t.fileName,
+  }));
+
+// hh:mm:ss.fff, as used by WebVTT and in the CSV export
+const formatClockTime = (seconds: number): string => {
+  const millis = Math.round(Math.max(0, seconds) * 1000);
+  const hours = Math.floor(millis / 3600000);
+  const minutes = Math.floor(millis / 60000) % 60;
+  const secs = Math.floor(millis / 1000) % 60;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(millis % 1000, 3)}`;
+};
+
+const quoteCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const formatCsvCues = (cues: Cue[]): string => {
+  const rows = cues.map((cue, index) => {
+    const end = cue.end ?? cue.start;
+    return [String(index + 1), formatClockTime(cue.start), formatClockTime(end), formatClockTime(end - cue.start), quoteCsv(cue.label)].join(',');
+  });
+  return ['Index,Start,End,Duration,Label', ...rows].join('\r\n') + '\r\n';
+};
+
+// CUE sheet indexing the exported audio file, one track per cue
+export const formatCueSheet = (cues: Cue[], audioFileName: string, title: string): string => {
+  const quote = (value: string) => `"${value.replace(/"/g, "'")}"`;
+  const frames = (seconds: number) => {
+    const total = Math.round(Math.max(0, seconds) * CUE_SHEET_FPS);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${pad(Math.floor(total / (60 * CUE_SHEET_FPS)))}:${pad(Math.floor(total / CUE_SHEET_FPS) % 60)}:${pad(total % CUE_SHEET_FPS)}`;
+  };
+
+  const lines = [`TITLE ${quote(title)}`, `FILE ${quote(audioFileName)} WAVE`];
+  cues.forEach((cue, index) => {
+    lines.push(
+      `  TRACK ${String(index + 1).padStart(2, '0')} AUDIO`,
+      `    TITLE ${quote(cue.label)}`,
+      `    INDEX 01 ${frames(cue.start)}`
+    );
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+// WebVTT chapters run back to back: each lasts until the next one starts,
+// and the last until the end of the arrangement. Cues starting together
+// share a chapter.
+export const formatVttChapters = (cues: Cue[], duration: number): string => {
+  const chapters: Cue[] = [];
+  for (const cue of cues) {
+    const previous = chapters[chapters.length - 1];
+    if (previous && Math.abs(previous.start - cue.start) < 0.001) {
+      previous.label = `${previous.label} / ${cue.label}`;
+    } else {
+      chapters.push({ ...cue });
+    }
+  }
+
+  const blocks = chapters.map((chapter, index) => {
+    const end = chapters[index + 1]?.start ?? Math.max(duration, chapter.end ?? chapter.start);
+    return `${index + 1}\n${formatClockTime(chapter.start)} --> ${formatClockTime(end)}\n${chapter.label}`;
+  });
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+};
+
+// Subtitles, one numbered block per cue. Cues without an end show until the next one.
+const formatSubtitleBlocks = (cues: Cue[], formatTime: (seconds: number) => string): string[] =>
+  cues.map((cue, index) => {
+    const end = cue.end ?? cues[index + 1]?.start ?? cue.start;
+    return `${index + 1}\n${formatTime(cue.start)} --> ${formatTime(end)}\n${cue.label}`;
+  });
+
+// SRT writes a comma before the milliseconds
+export const formatSrt = (cues: Cue[]): string =>
+  (formatSubtitleBlocks(cues, seconds => formatClockTime(seconds).replace('.', ',')).join('\n\n') + '\n').replace(/\n/g, '\r\n');
+
+export const formatVttCaptions = (cues: Cue[]): string =>
+  ['WEBVTT', ...formatSubtitleBlocks(cues, formatClockTime)].join('\n\n') + '\n';
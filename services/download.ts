@@ -0,0 +1,21 @@
+// Some browsers abort a download whose object URL is revoked while it is
+// still being read, so the URL is kept alive for a while after the click
+const REVOKE_DELAY_MS = 10000;
+
+// Triggers a browser download of `blob` under `fileName`
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// Turns a free-form project name into something safe to use as a file name
+export const toFileName = (name: string, fallback: string = 'untitled'): string => {
+  const cleaned = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-');
+  return cleaned || fallback;
+};
@@ -0,0 +1,296 @@
+import { Effect, EffectType, EqBand, EqBandType } from '../types';
+import { generateId } from './trackUtils';
+import { TaskControl, createCheckpoint } from './task';
+
+// Per-clip insert effects. Everything here is plain sample processing, so the
+// export and live playback run the very same code and sound the same.
+
+export const EFFECT_TYPES: { value: EffectType; label: string }[] = [
+  { value: 'eq', label: 'Parametric EQ' },
+  { value: 'compressor', label: 'Compressor' },
+  { value: 'gate', label: 'Noise Gate' },
+  { value: 'reverb', label: 'Reverb' },
+];
+
+export const EQ_BAND_TYPES: { value: EqBandType; label: string }[] = [
+  { value: 'highpass', label: 'High-pass' },
+  { value: 'lowshelf', label: 'Low shelf' },
+  { value: 'peaking', label: 'Bell' },
+  { value: 'highshelf', label: 'High shelf' },
+  { value: 'lowpass', label: 'Low-pass' },
+];
+
+export const MAX_EQ_BANDS = 6;
+
+export interface EffectParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+// Slider ranges for the scalar parameters of each effect. The EQ edits its
+// bands instead.
+export const EFFECT_PARAMS: Record<Exclude<EffectType, 'eq'>, EffectParam[]> = {
+  compressor: [
+    { key: 'threshold', label: 'Threshold', min: -60, max: 0, step: 0.5, unit: 'dB' },
+    { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.1, unit: ':1' },
+    { key: 'attack', label: 'Attack', min: 0.1, max: 100, step: 0.1, unit: 'ms' },
+    { key: 'release', label: 'Release', min: 10, max: 1000, step: 1, unit: 'ms' },
+    { key: 'makeup', label: 'Makeup', min: 0, max: 24, step: 0.5, unit: 'dB' },
+  ],
+  gate: [
+    { key: 'threshold', label: 'Threshold', min: -90, max: 0, step: 0.5, unit: 'dB' },
+    { key: 'attack', label: 'Attack', min: 0.1, max: 50, step: 0.1, unit: 'ms' },
+    { key: 'hold', label: 'Hold', min: 0, max: 500, step: 1, unit: 'ms' },
+    { key: 'release', label: 'Release', min: 5, max: 1000, step: 1, unit: 'ms' },
+  ],
+  reverb: [
+    { key: 'roomSize', label: 'Room', min: 0, max: 1, step: 0.01, unit: '' },
+    { key: 'damping', label: 'Damping', min: 0, max: 1, step: 0.01, unit: '' },
+    { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, unit: '' },
+  ],
+};
+
+export const createEqBand = (type: EqBandType = 'peaking'): EqBand => ({ type, frequency: 1000, gain: 0, q: 1 });
+
+// New effects start from settings suited to cleaning up voice recordings
+export const createEffect = (type: EffectType): Effect => {
+  const base = { id: generateId(), bypass: false };
+  switch (type) {
+    case 'eq':
+      return { ...base, type, bands: [{ type: 'highpass', frequency: 80, gain: 0, q: 0.707 }, createEqBand()] };
+    case 'compressor':
+      return { ...base, type, threshold: -18, ratio: 3, attack: 10, release: 150, makeup: 0 };
+    case 'gate':
+      return { ...base, type, threshold: -50, attack: 1, hold: 50, release: 100 };
+    case 'reverb':
+      return { ...base, type, roomSize: 0.5, damping: 0.5, mix: 0.2 };
+  }
+};
+
+export const getActiveEffects = (effects: Effect[]): Effect[] => effects.filter(effect => !effect.bypass);
+
+// Processes frames [from, to) of every channel in place, keeping its own
+// state between calls
+type Processor = (channels: Float32Array[], from: number, to: number) => void;
+
+const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+// One-pole smoothing coefficient reaching ~63 % of a step in `ms`
+const timeCoefficient = (ms: number, sampleRate: number) =>
+  ms <= 0 ? 0 : Math.exp(-1 / ((ms / 1000) * sampleRate));
+
+// Biquad coefficients from the RBJ audio EQ cookbook
+const getBiquad = (band: EqBand, sampleRate: number) => {
+  const frequency = Math.max(10, Math.min(sampleRate * 0.49, band.frequency));
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Math.max(0.05, band.q));
+  const A = Math.pow(10, band.gain / 40);
+  const shelf = 2 * Math.sqrt(A) * alpha;
+
+  let b0, b1, b2, a0, a1, a2;
+  switch (band.type) {
+    case 'highpass':
+      [b0, b1, b2] = [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+      [a0, a1, a2] = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'lowpass':
+      [b0, b1, b2] = [(1 - cos) / 2, 1 - cos, (1 - cos) / 2];
+      [a0, a1, a2] = [1 + alpha, -2 * cos, 1 - alpha];
+      break;
+    case 'lowshelf':
+      b0 = A * (A + 1 - (A - 1) * cos + shelf);
+      b1 = 2 * A * (A - 1 - (A + 1) * cos);
+      b2 = A * (A + 1 - (A - 1) * cos - shelf);
+      a0 = A + 1 + (A - 1) * cos + shelf;
+      a1 = -2 * (A - 1 + (A + 1) * cos);
+      a2 = A + 1 + (A - 1) * cos - shelf;
+      break;
+    case 'highshelf':
+      b0 = A * (A + 1 + (A - 1) * cos + shelf);
+      b1 = -2 * A * (A - 1 + (A + 1) * cos);
+      b2 = A * (A + 1 + (A - 1) * cos - shelf);
+      a0 = A + 1 - (A - 1) * cos + shelf;
+      a1 = 2 * (A - 1 - (A + 1) * cos);
+      a2 = A + 1 - (A - 1) * cos - shelf;
+      break;
+    default:
+      [b0, b1, b2] = [1 + alpha * A, -2 * cos, 1 - alpha * A];
+      [a0, a1, a2] = [1 + alpha / A, -2 * cos, 1 - alpha / A];
+  }
+
+  return { b0: b0 / a0, b1: b1 / a0, b2: b2 / a0, a1: a1 / a0, a2: a2 / a0 };
+};
+
+const createEq = (bands: EqBand[], channelCount: number, sampleRate: number): Processor => {
+  const filters = bands.map(band => getBiquad(band, sampleRate));
+  const states = Array.from({ length: channelCount }, () => filters.map(() => new Float64Array(4)));
+
+  return (channels, from, to) => {
+    channels.forEach((channel, c) => {
+      filters.forEach(({ b0, b1, b2, a1, a2 }, f) => {
+        const s = states[c][f]; // x1, x2, y1, y2
+        for (let i = from; i < to; i++) {
+          const x = channel[i];
+          const y = b0 * x + b1 * s[0] + b2 * s[1] - a1 * s[2] - a2 * s[3];
+          s[1] = s[0];
+          s[0] = x;
+          s[3] = s[2];
+          s[2] = y;
+          channel[i] = y;
+        }
+      });
+    });
+  };
+};
+
+// Feed-forward compressor with a stereo-linked peak detector. Gain reduction
+// is smoothed in decibels with separate attack and release times.
+const createCompressor = (
+  { threshold, ratio, attack, release, makeup }: { threshold: number; ratio: number; attack: number; release: number; makeup: number },
+  sampleRate: number
+): Processor => {
+  const attackCoef = timeCoefficient(attack, sampleRate);
+  const releaseCoef = timeCoefficient(release, sampleRate);
+  const slope = 1 - 1 / Math.max(1, ratio);
+  let reduction = 0; // dB
+
+  return (channels, from, to) => {
+    for (let i = from; i < to; i++) {
+      let peak = 0;
+      for (const channel of channels) peak = Math.max(peak, Math.abs(channel[i]));
+
+      const level = 20 * Math.log10(peak + 1e-12);
+      const target = level > threshold ? (level - threshold) * slope : 0;
+      const coef = target > reduction ? attackCoef : releaseCoef;
+      reduction = target + (reduction - target) * coef;
+
+      const gain = dbToLinear(makeup - reduction);
+      for (const channel of channels) channel[i] *= gain;
+    }
+  };
+};
+
+// Opens while the linked peak level is above the threshold, stays open for
+// the hold time after it drops, then fades out over the release time
+const createGate = (
+  { threshold, attack, hold, release }: { threshold: number; attack: number; hold: number; release: number },
+  sampleRate: number
+): Processor => {
+  const open = dbToLinear(threshold);
+  const attackCoef = timeCoefficient(attack, sampleRate);
+  const releaseCoef = timeCoefficient(release, sampleRate);
+  const holdFrames = Math.round((hold / 1000) * sampleRate);
+  let held = 0;
+  let gain = 0;
+
+  return (channels, from, to) => {
+    for (let i = from; i < to; i++) {
+      let peak = 0;
+      for (const channel of channels) peak = Math.max(peak, Math.abs(channel[i]));
+
+      if (peak >= open) held = holdFrames + 1;
+      const target = held > 0 ? 1 : 0;
+      if (held > 0) held--;
+      gain = target + (gain - target) * (target > gain ? attackCoef : releaseCoef);
+
+      for (const channel of channels) channel[i] *= gain;
+    }
+  };
+};
+
+// Freeverb: eight damped comb filters in parallel followed by four allpass
+// filters per channel. Delay lengths are the original 44.1 kHz tunings,
+// scaled to the sample rate, with the right channel slightly detuned.
+const COMB_TUNINGS = [1116, 1188, 1277, 1356, 1422, 1491, 1557, 1617];
+const ALLPASS_TUNINGS = [556, 441, 341, 225];
+const STEREO_SPREAD = 23;
+const REVERB_INPUT_GAIN = 0.015;
+const REVERB_WET_SCALE = 3;
+
+const createReverb = (
+  { roomSize, damping, mix }: { roomSize: number; damping: number; mix: number },
+  channelCount: number,
+  sampleRate: number
+): Processor => {
+  const scale = sampleRate / 44100;
+  const feedback = 0.7 + 0.28 * roomSize;
+  const damp = 0.4 * damping;
+  const wet = mix * REVERB_WET_SCALE;
+  const dry = 1 - mix;
+
+  const lines = Array.from({ length: channelCount }, (_, c) => ({
+    combs: COMB_TUNINGS.map(t => ({ buffer: new Float32Array(Math.round((t + c * STEREO_SPREAD) * scale)), index: 0, store: 0 })),
+    allpasses: ALLPASS_TUNINGS.map(t => ({ buffer: new Float32Array(Math.round((t + c * STEREO_SPREAD) * scale)), index: 0 })),
+  }));
+
+  return (channels, from, to) => {
+    channels.forEach((channel, c) => {
+      const { combs, allpasses } = lines[c];
+      for (let i = from; i < to; i++) {
+        const input = channel[i] * REVERB_INPUT_GAIN;
+        let out = 0;
+
+        for (const comb of combs) {
+          const delayed = comb.buffer[comb.index];
+          comb.store = delayed * (1 - damp) + comb.store * damp;
+          comb.buffer[comb.index] = input + comb.store * feedback;
+          if (++comb.index >= comb.buffer.length) comb.index = 0;
+          out += delayed;
+        }
+
+        for (const allpass of allpasses) {
+          const delayed = allpass.buffer[allpass.index];
+          allpass.buffer[allpass.index] = out + delayed * 0.5;
+          if (++allpass.index >= allpass.buffer.length) allpass.index = 0;
+          out = delayed - out;
+        }
+
+        channel[i] = channel[i] * dry + out * wet;
+      }
+    });
+  };
+};
+
+const createProcessor = (effect: Effect, channelCount: number, sampleRate: number): Processor => {
+  switch (effect.type) {
+    case 'eq':
+      return createEq(effect.bands, channelCount, sampleRate);
+    case 'compressor':
+      return createCompressor(effect, sampleRate);
+    case 'gate':
+      return createGate(effect, sampleRate);
+    case 'reverb':
+      return createReverb(effect, channelCount, sampleRate);
+  }
+};
+
+// Frames run through the whole chain between progress checkpoints
+const BLOCK_FRAMES = 1 << 14;
+
+// Runs copies of `channels` through the effects in order. Bypassed effects
+// are skipped.
+export const processEffects = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  effects: Effect[],
+  control?: TaskControl
+): Promise<Float32Array[]> => {
+  const output = channels.map(channel => channel.slice());
+  const processors = getActiveEffects(effects).map(effect => createProcessor(effect, output.length, sampleRate));
+  const length = output[0]?.length ?? 0;
+  const checkpoint = createCheckpoint(control);
+
+  for (let start = 0; start < length; start += BLOCK_FRAMES) {
+    await checkpoint(start / length);
+    const end = Math.min(length, start + BLOCK_FRAMES);
+    for (const process of processors) process(output, start, end);
+  }
+
+  control?.onProgress?.(1);
+  return output;
+};
@@ -0,0 +1,133 @@
+import { encodeWav, WavMarker, WavSampleFormat } from './wavEncoder';
+import { encodeFlac } from './flacEncoder';
+import { encodeOggOpus, OPUS_SAMPLE_RATE } from './oggOpusEncoder';
+import { AudioTags } from './audioTags';
+import { resampleChannel } from './resampler';
+import { DEFAULT_MASTER_SETTINGS, MasterSettings, isMasterActive, processMaster } from './masterBus';
+import { TaskControl, subTask } from './task';
+
+export type ExportContainer = 'wav' | 'flac' | 'opus';
+
+export interface ExportSettings {
+  container: ExportContainer;
+  format: WavSampleFormat; // Sample format for WAV; FLAC uses the 16/24-bit choices
+  sampleRate: number; // Ignored for Opus, which is always 48 kHz
+  dither: boolean;
+  channels: 1 | 2;
+  flacLevel: number;
+  opusBitrate: number; // bits per second
+  master: MasterSettings;
+  embedMarkers: boolean; // Clip boundaries as cue points; WAV only
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  container: 'wav',
+  format: 'pcm16',
+  sampleRate: 44100,
+  dither: true,
+  channels: 2,
+  flacLevel: 5,
+  opusBitrate: 128000,
+  master: DEFAULT_MASTER_SETTINGS,
+  embedMarkers: true,
+};
+
+export const EXPORT_CONTAINERS: { value: ExportContainer; label: string; extension: string; lossless: boolean }[] = [
+  { value: 'wav', label: 'WAV', extension: 'wav', lossless: true },
+  { value: 'flac', label: 'FLAC', extension: 'flac', lossless: true },
+  { value: 'opus', label: 'Opus (Ogg)', extension: 'opus', lossless: false },
+];
+
+export const EXPORT_FORMATS: { value: WavSampleFormat; label: string }[] = [
+  { value: 'pcm16', label: '16-bit PCM' },
+  { value: 'pcm24', label: '24-bit PCM' },
+  { value: 'float32', label: '32-bit float' },
+];
+
+export const EXPORT_SAMPLE_RATES = [44100, 48000, 96000];
+
+export const OPUS_BITRATES = [64000, 96000, 128000, 160000, 192000, 256000];
+
+export const getExportExtension = (settings: ExportSettings): string =>
+  EXPORT_CONTAINERS.find(container => container.value === settings.container)?.extension ?? 'wav';
+
+// FLAC has no float samples, so float settings fall back to 24-bit
+const getFlacBitDepth = (format: WavSampleFormat) => (format === 'pcm16' ? 16 : 24);
+
+const getOutputSampleRate = (settings: ExportSettings) =>
+  settings.container === 'opus' ? OPUS_SAMPLE_RATE : settings.sampleRate;
+
+// Downmixes and resamples the mix to the requested output layout
+export const prepareExportChannels = async (
+  mix: Float32Array[],
+  mixSampleRate: number,
+  settings: ExportSettings,
+  control?: TaskControl
+): Promise<Float32Array[]> => {
+  let channels = mix;
+
+  if (settings.channels === 1 && channels.length > 1) {
+    const mono = new Float32Array(channels[0].length);
+    for (const channel of channels) {
+      for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+    }
+    channels = [mono];
+  } else if (settings.channels === 2 && channels.length === 1) {
+    channels = [channels[0], channels[0]];
+  }
+
+  const sampleRate = getOutputSampleRate(settings);
+  if (sampleRate === mixSampleRate) return channels;
+
+  const resampled: Float32Array[] = [];
+  for (const channel of channels) {
+    const done = resampled.length / channels.length;
+    const channelControl = subTask(control, done, done + 1 / channels.length);
+    resampled.push(await resampleChannel(channel, mixSampleRate, sampleRate, channelControl));
+  }
+  return resampled;
+};
+
+// Shares of the export progress bar spent on the master section and on
+// resampling, when those are needed
+const MASTER_PROGRESS_SHARE = 0.3;
+const RESAMPLE_PROGRESS_SHARE = 0.5;
+
+export const exportMix = async (
+  mix: Float32Array[],
+  mixSampleRate: number,
+  settings: ExportSettings,
+  tags: AudioTags,
+  markers: WavMarker[],
+  control?: TaskControl
+): Promise<Blob> => {
+  const masterShare = isMasterActive(settings.master) ? MASTER_PROGRESS_SHARE : 0;
+  const mastered = masterShare > 0
+    ? await processMaster(mix, mixSampleRate, settings.master, undefined, subTask(control, 0, masterShare))
+    : mix;
+
+  const resampleEnd = getOutputSampleRate(settings) === mixSampleRate
+    ? masterShare
+    : masterShare + (1 - masterShare) * RESAMPLE_PROGRESS_SHARE;
+  const channels = await prepareExportChannels(mastered, mixSampleRate, settings, subTask(control, masterShare, resampleEnd));
+  const encodeControl = subTask(control, resampleEnd, 1);
+
+  switch (settings.container) {
+    case 'flac':
+      return encodeFlac(channels, settings.sampleRate, {
+        bitsPerSample: getFlacBitDepth(settings.format),
+        compressionLevel: settings.flacLevel,
+        dither: settings.dither,
+        tags,
+      }, encodeControl);
+    case 'opus':
+      return encodeOggOpus(channels, mixSampleRate, { bitrate: settings.opusBitrate, tags }, encodeControl);
+    default:
+      return encodeWav(channels, settings.sampleRate, {
+        format: settings.format,
+        dither: settings.dither,
+        tags,
+        markers: settings.embedMarkers ? markers : undefined,
+      }, encodeControl);
+  }
+};
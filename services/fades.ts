@@ -0,0 +1,119 @@
+import { ClipSettings, FadeCurve } from '../types';
+import { getTrackLength, isTrackAudible } from './trackUtils';
+
+export interface ClipFades {
+  fadeIn: number;
+  fadeOut: number;
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+}
+
+export const FADE_CURVES: { value: FadeCurve; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'equal-power', label: 'Equal power' },
+  { value: 'logarithmic', label: 'Logarithmic' },
+];
+
+// Dynamic range covered by the logarithmic curve before it drops to silence
+const LOG_FADE_RANGE_DB = 60;
+
+// Gain of a fade-in curve at position t (0 = silent end, 1 = full level).
+// Fade-outs use the same curve mirrored: fadeGain(curve, 1 - t).
+export const fadeGain = (curve: FadeCurve, t: number): number => {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  switch (curve) {
+    case 'equal-power':
+      return Math.sin(t * Math.PI / 2);
+    case 'logarithmic':
+      return Math.pow(10, (-LOG_FADE_RANGE_DB * (1 - t)) / 20);
+    default:
+      return t;
+  }
+};
+
+// Per-sample gain of a clip `length` samples long. Index 0 is the first sample
+// after the trim-in point.
+export const createFadeEnvelope = (
+  fades: ClipFades,
+  length: number,
+  sampleRate: number
+): ((index: number) => number) => {
+  const fadeInSamples = Math.round(fades.fadeIn * sampleRate);
+  const fadeOutSamples = Math.round(fades.fadeOut * sampleRate);
+  const fadeOutStart = length - fadeOutSamples;
+
+  return (index: number) => {
+    let gain = 1;
+    if (index < fadeInSamples) {
+      gain *= fadeGain(fades.fadeInCurve, index / fadeInSamples);
+    }
+    if (index >= fadeOutStart) {
+      gain *= fadeGain(fades.fadeOutCurve, (length - index) / fadeOutSamples);
+    }
+    return gain;
+  };
+};
+
+// Fades are clamped so fade-in and fade-out never overlap each other
+const clampFades = (fades: ClipFades, length: number): ClipFades => {
+  const fadeIn = Math.max(0, Math.min(fades.fadeIn, length));
+  const fadeOut = Math.max(0, Math.min(fades.fadeOut, length));
+  const total = fadeIn + fadeOut;
+  if (total <= length || total === 0) return { ...fades, fadeIn, fadeOut };
+  const scale = length / total;
+  return { ...fades, fadeIn: fadeIn * scale, fadeOut: fadeOut * scale };
+};
+
+// Resolves the fades each clip is actually rendered with. With auto crossfade
+// enabled, wherever one audible clip runs into the next the outgoing clip's
+// fade-out and the incoming clip's fade-in are stretched to cover the overlap.
+export const getEffectiveFades = (
+  tracks: ClipSettings[],
+  autoCrossfade: boolean
+): Map<string, ClipFades> => {
+  const fades = new Map<string, ClipFades>();
+  for (const track of tracks) {
+    fades.set(track.id, {
+      fadeIn: track.fadeIn,
+      fadeOut: track.fadeOut,
+      fadeInCurve: track.fadeInCurve,
+      fadeOutCurve: track.fadeOutCurve,
+    });
+  }
+
+  if (autoCrossfade) {
+    const audible = tracks
+      .filter(t => isTrackAudible(t, tracks))
+      .sort((a, b) => a.startTime - b.startTime);
+
+    for (let i = 0; i < audible.length; i++) {
+      const outgoing = audible[i];
+      const outgoingEnd = outgoing.startTime + getTrackLength(outgoing);
+
+      for (let j = i + 1; j < audible.length; j++) {
+        const incoming = audible[j];
+        if (incoming.startTime >= outgoingEnd) break;
+
+        // A clip nested entirely inside another isn't a join, so leave it alone
+        const incomingEnd = incoming.startTime + getTrackLength(incoming);
+        if (incomingEnd <= outgoingEnd || incoming.startTime <= outgoing.startTime) continue;
+
+        const overlap = outgoingEnd - incoming.startTime;
+        const out = fades.get(outgoing.id)!;
+        if (overlap > out.fadeOut) {
+          fades.set(outgoing.id, { ...out, fadeOut: overlap, fadeOutCurve: 'equal-power' });
+        }
+        const inc = fades.get(incoming.id)!;
+        if (overlap > inc.fadeIn) {
+          fades.set(incoming.id, { ...inc, fadeIn: overlap, fadeInCurve: 'equal-power' });
+        }
+      }
+    }
+  }
+
+  for (const track of tracks) {
+    fades.set(track.id, clampFades(fades.get(track.id)!, getTrackLength(track)));
+  }
+  return fades;
+};
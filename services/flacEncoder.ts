@@ -0,0 +1,475 @@
+import { createQuantizer } from './pcm';
+import { createMd5 } from './md5';
+import { AudioTags, encodeVorbisComment } from './audioTags';
+import { TaskControl, createCheckpoint } from './task';
+
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacEncodeOptions {
+  bitsPerSample: FlacBitDepth;
+  compressionLevel: number; // 0 (fastest) to 8 (smallest)
+  dither: boolean;
+  tags?: AudioTags;
+}
+
+export const FLAC_COMPRESSION_LEVELS = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+const BLOCK_SIZE = 4096;
+
+// Search limits per compression level. Only the fixed polynomial predictors
+// are used, so higher levels spend their effort on finer Rice partitioning.
+const LEVEL_SETTINGS = [
+  { maxPredictorOrder: 2, maxPartitionOrder: 2, stereoDecorrelation: false },
+  { maxPredictorOrder: 2, maxPartitionOrder: 2, stereoDecorrelation: true },
+  { maxPredictorOrder: 3, maxPartitionOrder: 3, stereoDecorrelation: true },
+  { maxPredictorOrder: 4, maxPartitionOrder: 3, stereoDecorrelation: true },
+  { maxPredictorOrder: 4, maxPartitionOrder: 4, stereoDecorrelation: true },
+  { maxPredictorOrder: 4, maxPartitionOrder: 5, stereoDecorrelation: true },
+  { maxPredictorOrder: 4, maxPartitionOrder: 6, stereoDecorrelation: true },
+  { maxPredictorOrder: 4, maxPartitionOrder: 7, stereoDecorrelation: true },
+  { maxPredictorOrder: 4, maxPartitionOrder: 8, stereoDecorrelation: true },
+];
+
+// Header codes from the FLAC format specification
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+const SAMPLE_SIZE_CODES: Record<FlacBitDepth, number> = { 16: 0b100, 24: 0b110 };
+const BLOCK_SIZE_CODE = 0b1100; // 256 * 2^(12 - 8) = 4096
+const BLOCK_SIZE_CODE_16BIT = 0b0111; // Explicit size follows the header
+
+const CHANNELS_LEFT_SIDE = 0b1000;
+const CHANNELS_SIDE_RIGHT = 0b1001;
+const CHANNELS_MID_SIDE = 0b1010;
+
+const METADATA_STREAMINFO = 0;
+const METADATA_VORBIS_COMMENT = 4;
+
+const RICE_PARAMETER_BITS = 4;
+const RICE2_PARAMETER_BITS = 5;
+const MAX_RICE_PARAMETER = 14; // 15 is the escape code in the 4-bit method
+const MAX_RICE2_PARAMETER = 30;
+
+const CRC8_TABLE = new Uint8Array(256).map((_, i) => {
+  let crc = i;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? (crc << 1) ^ 0x07 : crc << 1;
+  return crc & 0xff;
+});
+
+const CRC16_TABLE = new Uint16Array(256).map((_, i) => {
+  let crc = i << 8;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? (crc << 1) ^ 0x8005 : crc << 1;
+  return crc & 0xffff;
+});
+
+const crc8 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]]) & 0xffff;
+  return crc;
+};
+
+// Big-endian, MSB-first bit writer over a growable buffer
+const createBitWriter = (initialSize: number) => {
+  let bytes = new Uint8Array(initialSize);
+  let length = 0;
+  let accumulator = 0;
+  let accumulatedBits = 0;
+
+  const pushByte = (value: number) => {
+    if (length === bytes.length) {
+      const grown = new Uint8Array(bytes.length * 2);
+      grown.set(bytes);
+      bytes = grown;
+    }
+    bytes[length++] = value;
+  };
+
+  // Writes the low `count` bits (at most 32) of an unsigned value
+  const write = (value: number, count: number) => {
+    while (count > 0) {
+      const take = Math.min(count, 8 - accumulatedBits);
+      const shift = count - take;
+      const chunk = (value >>> shift) & ((1 << take) - 1);
+      accumulator = (accumulator << take) | chunk;
+      accumulatedBits += take;
+      count -= take;
+      if (accumulatedBits === 8) {
+        pushByte(accumulator);
+        accumulator = 0;
+        accumulatedBits = 0;
+      }
+    }
+  };
+
+  return {
+    write,
+    writeSigned(value: number, count: number) {
+      write(count === 32 ? value >>> 0 : value & ((1 << count) - 1), count);
+    },
+    writeUnary(zeros: number) {
+      while (zeros > 24) {
+        write(0, 24);
+        zeros -= 24;
+      }
+      write(1, zeros + 1);
+    },
+    alignToByte() {
+      if (accumulatedBits > 0) write(0, 8 - accumulatedBits);
+    },
+    bytes: () => bytes.subarray(0, length),
+    reset() {
+      length = 0;
+      accumulator = 0;
+      accumulatedBits = 0;
+    },
+  };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+interface Subframe {
+  type: 'constant' | 'verbatim' | 'fixed';
+  samples: Int32Array;
+  bitsPerSample: number;
+  order: number;
+  residual: Int32Array | null;
+  rice: RicePlan | null;
+  bits: number;
+}
+
+// Folds signed residuals into unsigned values for Rice coding
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+// Residual of the fixed polynomial predictor of `order`, for samples
+// order..n-1 (the first `order` samples are stored verbatim as warm-up)
+const fixedResidual = (samples: Int32Array, order: number): Int32Array => {
+  const n = samples.length;
+  const residual = new Int32Array(n - order);
+  const x = samples;
+  switch (order) {
+    case 0:
+      residual.set(x);
+      break;
+    case 1:
+      for (let i = 1; i < n; i++) residual[i - 1] = x[i] - x[i - 1];
+      break;
+    case 2:
+      for (let i = 2; i < n; i++) residual[i - 2] = x[i] - 2 * x[i - 1] + x[i - 2];
+      break;
+    case 3:
+      for (let i = 3; i < n; i++) residual[i - 3] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3];
+      break;
+    default:
+      for (let i = 4; i < n; i++) residual[i - 4] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+  }
+  return residual;
+};
+
+// Picks the Rice parameter for a partition from the mean of its folded
+// residuals, and estimates the bits it costs
+const riceParameter = (sum: number, count: number): number => {
+  let parameter = 0;
+  while (parameter < MAX_RICE2_PARAMETER && count * Math.pow(2, parameter + 1) <= sum) parameter++;
+  return parameter;
+};
+
+const riceBits = (sum: number, count: number, parameter: number): number =>
+  count * (parameter + 1) + Math.floor(sum / Math.pow(2, parameter));
+
+// Chooses the partition order with the smallest estimated size. Sums are
+// gathered once at the finest order and merged pairwise for coarser ones.
+const planRice = (residual: Int32Array, blockSize: number, order: number, maxPartitionOrder: number): RicePlan => {
+  let finest = 0;
+  while (
+    finest < maxPartitionOrder &&
+    blockSize % (1 << (finest + 1)) === 0 &&
+    blockSize >> (finest + 1) > order
+  ) {
+    finest++;
+  }
+
+  const partitions = 1 << finest;
+  const partitionSize = blockSize >> finest;
+  let sums = new Array<number>(partitions).fill(0);
+  let counts = new Array<number>(partitions).fill(0);
+  for (let p = 0, i = 0; p < partitions; p++) {
+    const count = p === 0 ? partitionSize - order : partitionSize;
+    let sum = 0;
+    for (let end = i + count; i < end; i++) sum += zigzag(residual[i]);
+    sums[p] = sum;
+    counts[p] = count;
+  }
+
+  let best: RicePlan | null = null;
+  for (let partitionOrder = finest; partitionOrder >= 0; partitionOrder--) {
+    const parameters = sums.map((sum, p) => riceParameter(sum, counts[p]));
+    const parameterBits = parameters.some(parameter => parameter > MAX_RICE_PARAMETER)
+      ? RICE2_PARAMETER_BITS
+      : RICE_PARAMETER_BITS;
+    const bits = sums.reduce(
+      (total, sum, p) => total + parameterBits + riceBits(sum, counts[p], parameters[p]),
+      0
+    );
+    if (!best || bits < best.bits) best = { partitionOrder, parameters, bits };
+
+    sums = sums.filter((_, p) => p % 2 === 0).map((sum, p) => sum + sums[p * 2 + 1]);
+    counts = counts.filter((_, p) => p % 2 === 0).map((count, p) => count + counts[p * 2 + 1]);
+  }
+  return best as RicePlan;
+};
+
+const chooseSubframe = (
+  samples: Int32Array,
+  bitsPerSample: number,
+  maxPredictorOrder: number,
+  maxPartitionOrder: number
+): Subframe => {
+  const n = samples.length;
+  const base = { samples, bitsPerSample, order: 0, residual: null, rice: null };
+
+  if (samples.every(sample => sample === samples[0])) {
+    return { ...base, type: 'constant', bits: 8 + bitsPerSample };
+  }
+
+  let best: Subframe = { ...base, type: 'verbatim', bits: 8 + n * bitsPerSample };
+  for (let order = 0; order <= Math.min(maxPredictorOrder, n - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const rice = planRice(residual, n, order, maxPartitionOrder);
+    const bits = 8 + order * bitsPerSample + 6 + rice.bits;
+    if (bits < best.bits) best = { ...base, type: 'fixed', order, residual, rice, bits };
+  }
+  return best;
+};
+
+const writeSubframe = (writer: BitWriter, subframe: Subframe) => {
+  const { samples, bitsPerSample } = subframe;
+
+  if (subframe.type === 'constant') {
+    writer.write(0b00000000, 8);
+    writer.writeSigned(samples[0], bitsPerSample);
+    return;
+  }
+  if (subframe.type === 'verbatim') {
+    writer.write(0b00000010, 8);
+    for (let i = 0; i < samples.length; i++) writer.writeSigned(samples[i], bitsPerSample);
+    return;
+  }
+
+  const residual = subframe.residual as Int32Array;
+  const rice = subframe.rice as RicePlan;
+  const rice2 = rice.parameters.some(parameter => parameter > MAX_RICE_PARAMETER);
+
+  writer.write(0b00010000 | (subframe.order << 1), 8);
+  for (let i = 0; i < subframe.order; i++) writer.writeSigned(samples[i], bitsPerSample);
+
+  writer.write(rice2 ? 1 : 0, 2);
+  writer.write(rice.partitionOrder, 4);
+  const partitionSize = samples.length >> rice.partitionOrder;
+  let i = 0;
+  rice.parameters.forEach((parameter, p) => {
+    writer.write(parameter, rice2 ? RICE2_PARAMETER_BITS : RICE_PARAMETER_BITS);
+    const end = i + (p === 0 ? partitionSize - subframe.order : partitionSize);
+    const divisor = Math.pow(2, parameter);
+    for (; i < end; i++) {
+      const value = zigzag(residual[i]);
+      writer.writeUnary(Math.floor(value / divisor));
+      if (parameter > 0) writer.write(value % divisor, parameter);
+    }
+  });
+};
+
+// Frame numbers are stored with the variable-length UTF-8 scheme
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let continuationBytes = 1;
+  while (value >= Math.pow(2, 5 * continuationBytes + 6)) continuationBytes++;
+  const leadBits = 6 - continuationBytes;
+  const lead = (0xff00 >> (continuationBytes + 1)) & 0xff;
+  writer.write(lead | ((value >>> (6 * continuationBytes)) & ((1 << leadBits) - 1)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | ((value >>> (6 * i)) & 0x3f), 8);
+  }
+};
+
+// Picks independent or decorrelated stereo coding for a block, whichever is
+// smallest
+const chooseChannelCoding = (
+  block: Int32Array[],
+  bitsPerSample: number,
+  settings: (typeof LEVEL_SETTINGS)[number]
+): { assignment: number; subframes: Subframe[] } => {
+  const choose = (samples: Int32Array, bits: number) =>
+    chooseSubframe(samples, bits, settings.maxPredictorOrder, settings.maxPartitionOrder);
+
+  const independent = block.map(samples => choose(samples, bitsPerSample));
+  if (block.length !== 2 || !settings.stereoDecorrelation) {
+    return { assignment: block.length - 1, subframes: independent };
+  }
+
+  const [left, right] = block;
+  const mid = new Int32Array(left.length);
+  const side = new Int32Array(left.length);
+  for (let i = 0; i < left.length; i++) {
+    mid[i] = (left[i] + right[i]) >> 1;
+    side[i] = left[i] - right[i];
+  }
+  const midFrame = choose(mid, bitsPerSample);
+  const sideFrame = choose(side, bitsPerSample + 1);
+
+  const candidates = [
+    { assignment: 1, subframes: independent },
+    { assignment: CHANNELS_LEFT_SIDE, subframes: [independent[0], sideFrame] },
+    { assignment: CHANNELS_SIDE_RIGHT, subframes: [sideFrame, independent[1]] },
+    { assignment: CHANNELS_MID_SIDE, subframes: [midFrame, sideFrame] },
+  ];
+  const size = (candidate: { subframes: Subframe[] }) =>
+    candidate.subframes.reduce((sum, subframe) => sum + subframe.bits, 0);
+  return candidates.reduce((best, candidate) => (size(candidate) < size(best) ? candidate : best));
+};
+
+const writeMetadataBlockHeader = (view: DataView, offset: number, type: number, length: number, isLast: boolean) => {
+  view.setUint8(offset, (isLast ? 0x80 : 0) | type);
+  view.setUint8(offset + 1, (length >> 16) & 0xff);
+  view.setUint16(offset + 2, length & 0xffff);
+};
+
+const createMetadata = (
+  sampleRate: number,
+  channels: number,
+  bitsPerSample: number,
+  totalFrames: number,
+  blockSize: number,
+  frameSizes: { min: number; max: number },
+  md5: Uint8Array,
+  tags: AudioTags | undefined
+): Uint8Array => {
+  const comment = encodeVorbisComment(tags ?? {});
+  const bytes = new Uint8Array(4 + 4 + 34 + 4 + comment.length);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x66, 0x4c, 0x61, 0x43], 0); // "fLaC"
+  writeMetadataBlockHeader(view, 4, METADATA_STREAMINFO, 34, false);
+
+  const info = createBitWriter(34);
+  info.write(blockSize, 16); // Min block size
+  info.write(blockSize, 16); // Max block size
+  info.write(frameSizes.min, 24);
+  info.write(frameSizes.max, 24);
+  info.write(sampleRate, 20);
+  info.write(channels - 1, 3);
+  info.write(bitsPerSample - 1, 5);
+  info.write(Math.floor(totalFrames / 0x100000000), 4); // Total samples, 36 bits
+  info.write(totalFrames % 0x100000000, 32);
+  bytes.set(info.bytes(), 8);
+  bytes.set(md5, 8 + 18);
+
+  writeMetadataBlockHeader(view, 42, METADATA_VORBIS_COMMENT, comment.length, true);
+  bytes.set(comment, 46);
+
+  return bytes;
+};
+
+// Encodes planar channel data as a FLAC stream using fixed predictors and
+// Rice-coded residuals, with mid/side stereo where it helps
+export const encodeFlac = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: FlacEncodeOptions,
+  control?: TaskControl
+): Promise<Blob> => {
+  const numChannels = channels.length;
+  const totalFrames = channels[0]?.length ?? 0;
+  const bitsPerSample = options.bitsPerSample;
+  const bytesPerSample = bitsPerSample / 8;
+  const settings =
+    LEVEL_SETTINGS[Math.max(0, Math.min(LEVEL_SETTINGS.length - 1, Math.round(options.compressionLevel)))];
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, totalFrames));
+
+  const quantize = createQuantizer(bitsPerSample, options.dither);
+  const md5 = createMd5();
+  const writer = createBitWriter(blockSize * numChannels * bytesPerSample * 2);
+  const frames: Uint8Array[] = [];
+  const frameSizes = { min: Infinity, max: 0 };
+  const checkpoint = createCheckpoint(control);
+
+  for (let start = 0, frameNumber = 0; start < totalFrames; start += BLOCK_SIZE, frameNumber++) {
+    await checkpoint(start / totalFrames);
+    const size = Math.min(BLOCK_SIZE, totalFrames - start);
+
+    // Quantize interleaved so the dither sequence matches the WAV encoder,
+    // and feed the MD5 the little-endian interleaved samples it expects
+    const block = channels.map(() => new Int32Array(size));
+    const raw = new Uint8Array(size * numChannels * bytesPerSample);
+    for (let i = 0, offset = 0; i < size; i++) {
+      for (let channel = 0; channel < numChannels; channel++) {
+        const value = quantize(channels[channel][start + i]);
+        block[channel][i] = value;
+        for (let byte = 0; byte < bytesPerSample; byte++) raw[offset++] = (value >> (8 * byte)) & 0xff;
+      }
+    }
+    md5.update(raw);
+
+    const { assignment, subframes } = chooseChannelCoding(block, bitsPerSample, settings);
+
+    writer.reset();
+    writer.write(0b11111111111110, 14); // Sync code
+    writer.write(0, 1);
+    writer.write(0, 1); // Fixed block size stream
+    writer.write(size === BLOCK_SIZE ? BLOCK_SIZE_CODE : BLOCK_SIZE_CODE_16BIT, 4);
+    writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+    writer.write(assignment, 4);
+    writer.write(SAMPLE_SIZE_CODES[bitsPerSample], 3);
+    writer.write(0, 1);
+    writeUtf8Number(writer, frameNumber);
+    if (size !== BLOCK_SIZE) writer.write(size - 1, 16);
+    writer.write(crc8(writer.bytes()), 8);
+
+    subframes.forEach(subframe => writeSubframe(writer, subframe));
+    writer.alignToByte();
+    writer.write(crc16(writer.bytes()), 16);
+
+    const frame = writer.bytes().slice();
+    frames.push(frame);
+    frameSizes.min = Math.min(frameSizes.min, frame.length);
+    frameSizes.max = Math.max(frameSizes.max, frame.length);
+  }
+
+  if (frames.length === 0) frameSizes.min = 0;
+  const metadata = createMetadata(
+    sampleRate,
+    numChannels,
+    bitsPerSample,
+    totalFrames,
+    blockSize,
+    frameSizes,
+    md5.digest(),
+    options.tags
+  );
+
+  return new Blob([metadata, ...frames], { type: 'audio/flac' });
+};
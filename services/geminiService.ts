@@ -1,53 +1,55 @@
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, GenerateContentParameters, GoogleGenAI } from "@google/genai";
+import { AiProvider, ProviderError, ProviderNetworkError, getStatusError, readBase64 } from './aiProvider';
+import { createAbortError } from './task';
 
-const getGeminiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API_KEY environment variable is not defined");
-  }
-  return new GoogleGenAI({ apiKey });
-};
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Gemini takes at most 20 MB of inline data per request. Base64 adds a third,
+// and the rest is left for the prompt.
+const MAX_INLINE_AUDIO_BYTES = Math.floor((20 * 1024 * 1024 * 3) / 4) - 64 * 1024;
 
-export const analyzeAudio = async (
-  audioBlob: Blob,
-  prompt: string = "Please provide a detailed summary of the audio content, identifying speakers if possible and the general mood."
-): Promise<string> => {
-  try {
-    const client = getGeminiClient();
-    
-    // Convert Blob to Base64
-    const reader = new FileReader();
-    const base64Promise = new Promise<string>((resolve, reject) => {
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        resolve(base64String);
-      };
-      reader.onerror = reject;
-    });
-    
-    reader.readAsDataURL(audioBlob);
-    const base64Data = await base64Promise;
+// The part of the Gemini SDK the provider uses, so a local mock can stand in
+// for the live API
+export interface GeminiClient {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }>;
+  };
+}
 
-    const response = await client.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            text: prompt,
-          },
-          {
-            inlineData: {
-              mimeType: audioBlob.type || 'audio/wav',
-              data: base64Data,
-            },
-          },
-        ],
-      },
-    });
+export const createGeminiClient = (apiKey: string): GeminiClient => new GoogleGenAI({ apiKey });
 
-    return response.text || "No analysis generated.";
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw new Error("Failed to analyze audio. Please check your API key and connection.");
-  }
+// SDK failures as typed provider errors. Fetch reports unreachable hosts as
+// a TypeError.
+const toProviderError = (error: unknown): Error => {
+  if (error instanceof ApiError) return getStatusError(error.status, error.message);
+  if (error instanceof TypeError) return new ProviderNetworkError();
+  return error instanceof Error ? error : new ProviderError(String(error));
 };
+
+// Sends audio inline with a JSON schema for the reply
+export const createGeminiProvider = (model: string, client: GeminiClient): AiProvider => ({
+  id: `gemini:${model}`,
+  maxAudioBytes: MAX_INLINE_AUDIO_BYTES,
+  generateJson: async ({ audio, prompt, schema, signal }) => {
+    try {
+      const response = await client.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            { text: prompt },
+            { inlineData: { mimeType: audio.type || 'audio/wav', data: await readBase64(audio) } },
+          ],
+        },
+        config: {
+          responseMimeType: 'application/json',
+          responseJsonSchema: schema,
+          abortSignal: signal,
+        },
+      });
+      return response.text ?? '';
+    } catch (error) {
+      if (signal?.aborted) throw createAbortError();
+      throw toProviderError(error);
+    }
+  },
+});
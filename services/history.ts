@@ -0,0 +1,69 @@
+// Oldest entries are dropped beyond this many steps
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Consecutive edits with the same coalesce key arriving within this window
+// (a slider being dragged, a clip being moved) collapse into one entry
+const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryEntry<T> {
+  label: string;
+  state: T;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+// Linear undo history. Snapshots are stored by reference, so anything that
+// isn't changed by an edit (decoded audio in particular) is shared between
+// entries rather than copied.
+export interface History<T> {
+  entries: HistoryEntry<T>[];
+  index: number; // Position of the current state in `entries`
+}
+
+export const createHistory = <T>(initial: T, label: string = 'Open'): History<T> => ({
+  entries: [{ label, state: initial, timestamp: 0 }],
+  index: 0,
+});
+
+export const getPresent = <T>(history: History<T>): T => history.entries[history.index].state;
+
+export const canUndo = <T>(history: History<T>): boolean => history.index > 0;
+
+export const canRedo = <T>(history: History<T>): boolean => history.index < history.entries.length - 1;
+
+// Records `state` as the new present, discarding anything that could have been redone
+export const pushHistory = <T>(
+  history: History<T>,
+  state: T,
+  label: string,
+  coalesceKey?: string,
+  now: number = Date.now()
+): History<T> => {
+  const current = history.entries[history.index];
+  if (state === current.state) return history;
+
+  const kept = history.entries.slice(0, history.index);
+  const canCoalesce =
+    coalesceKey !== undefined &&
+    current.coalesceKey === coalesceKey &&
+    now - current.timestamp < COALESCE_WINDOW_MS &&
+    history.index > 0;
+
+  let entries = canCoalesce
+    ? [...kept, { ...current, state, timestamp: now }]
+    : [...kept, current, { label, state, coalesceKey, timestamp: now }];
+
+  if (entries.length > MAX_HISTORY_ENTRIES) {
+    entries = entries.slice(entries.length - MAX_HISTORY_ENTRIES);
+  }
+  return { entries, index: entries.length - 1 };
+};
+
+export const jumpTo = <T>(history: History<T>, index: number): History<T> => {
+  const clamped = Math.max(0, Math.min(history.entries.length - 1, index));
+  return clamped === history.index ? history : { ...history, index: clamped };
+};
+
+export const undo = <T>(history: History<T>): History<T> => jumpTo(history, history.index - 1);
+
+export const redo = <T>(history: History<T>): History<T> => jumpTo(history, history.index + 1);
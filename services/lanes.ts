@@ -0,0 +1,59 @@
+import { Arrangement, AudioTrack, Lane } from '../types';
+import { generateId, getTrackLength } from './trackUtils';
+
+// Color palette for lanes
+export const LANE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#6366f1'];
+
+// Clips butted exactly end-to-start must not count as overlapping, even
+// after floating point drift from dragging
+const OVERLAP_EPSILON = 1e-6;
+
+export const createLane = (index: number): Lane => ({
+  id: generateId(),
+  name: `Lane ${index + 1}`,
+  color: LANE_COLORS[index % LANE_COLORS.length],
+});
+
+export const clipsOverlap = (a: AudioTrack, b: AudioTrack): boolean => {
+  return (
+    a.startTime < b.startTime + getTrackLength(b) - OVERLAP_EPSILON &&
+    b.startTime < a.startTime + getTrackLength(a) - OVERLAP_EPSILON
+  );
+};
+
+// Whether `clip` could sit on `laneId` without overlapping anything already there
+export const fitsInLane = (tracks: AudioTrack[], clip: AudioTrack, laneId: string): boolean => {
+  return !tracks.some(t => t.id !== clip.id && t.laneId === laneId && clipsOverlap(t, clip));
+};
+
+// End time of the last clip on a lane, or 0 for an empty lane
+export const getLaneEnd = (tracks: AudioTrack[], laneId: string): number => {
+  return tracks
+    .filter(t => t.laneId === laneId)
+    .reduce((max, t) => Math.max(max, t.startTime + getTrackLength(t)), 0);
+};
+
+export const getLaneColor = (lanes: Lane[], laneId: string): string => {
+  return lanes.find(l => l.id === laneId)?.color ?? LANE_COLORS[0];
+};
+
+// Moves each of the given clips that now overlaps a neighbour onto the first
+// lane with room for it, adding a new lane when none has
+export const resolveLaneConflicts = (arrangement: Arrangement, ids: string[]): Arrangement => {
+  let { lanes, tracks } = arrangement;
+
+  for (const id of ids) {
+    const clip = tracks.find(t => t.id === id);
+    if (!clip || fitsInLane(tracks, clip, clip.laneId)) continue;
+
+    let target = lanes.find(l => fitsInLane(tracks, clip, l.id));
+    if (!target) {
+      target = createLane(lanes.length);
+      lanes = [...lanes, target];
+    }
+    const laneId = target.id;
+    tracks = tracks.map(t => (t.id === id ? { ...t, laneId } : t));
+  }
+
+  return { lanes, tracks };
+};
@@ -0,0 +1,135 @@
+// Loudness measurement following ITU-R BS.1770 / EBU R128: K-weighting,
+// 400 ms blocks overlapping by 75 %, an absolute gate at -70 LUFS and a
+// relative gate 10 LU below the ungated level.
+
+import { TaskControl, createCheckpoint, subTask } from './task';
+import { measureTruePeak } from './truePeak';
+
+export interface LoudnessStats {
+  integrated: number; // LUFS, -Infinity for silence
+  samplePeak: number; // dBFS
+  truePeak: number; // dBTP
+}
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1; // Blocks start every 100 ms
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+// Share of the measurement's progress spent on loudness; true peak takes the rest
+const LOUDNESS_PROGRESS_SHARE = 0.5;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The two K-weighting stages, derived for any sample rate (the standard only
+// tabulates 48 kHz)
+const getKWeighting = (sampleRate: number): Biquad[] => {
+  // High shelf modelling the acoustic effect of the head
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  // RLB high-pass
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  return [shelf, highPass];
+};
+
+const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+export const toDecibels = (linear: number) => 20 * Math.log10(linear);
+
+// Integrated loudness of the signal. Every channel is weighted 1, which is
+// right for mono and stereo.
+const measureIntegrated = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  control?: TaskControl
+): Promise<number> => {
+  const length = channels[0]?.length ?? 0;
+  const step = Math.round(STEP_SECONDS * sampleRate);
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+  const segments = new Float64Array(Math.floor(length / step));
+  const filters = getKWeighting(sampleRate);
+  const checkpoint = createCheckpoint(control);
+
+  // Sum of K-weighted squares over each 100 ms segment, all channels together
+  for (const [index, channel] of channels.entries()) {
+    const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+
+    for (let segment = 0; segment < segments.length; segment++) {
+      if (segment % 100 === 0) await checkpoint((index + segment / segments.length) / channels.length);
+      let sum = 0;
+      for (let i = segment * step; i < (segment + 1) * step; i++) {
+        let x = channel[i];
+        for (let f = 0; f < filters.length; f++) {
+          const { b0, b1, b2, a1, a2 } = filters[f];
+          const s = state[f];
+          const y = b0 * x + b1 * s.x1 + b2 * s.x2 - a1 * s.y1 - a2 * s.y2;
+          s.x2 = s.x1;
+          s.x1 = x;
+          s.y2 = s.y1;
+          s.y1 = y;
+          x = y;
+        }
+        sum += x * x;
+      }
+      segments[segment] += sum;
+    }
+  }
+
+  const blockSamples = step * stepsPerBlock;
+  const blocks: number[] = [];
+  for (let first = 0; first + stepsPerBlock <= segments.length; first++) {
+    let sum = 0;
+    for (let s = first; s < first + stepsPerBlock; s++) sum += segments[s];
+    const power = sum / blockSamples;
+    if (toLufs(power) > ABSOLUTE_GATE) blocks.push(power);
+  }
+  if (blocks.length === 0) return -Infinity;
+
+  const mean = (powers: number[]) => powers.reduce((total, power) => total + power, 0) / powers.length;
+  const relativeGate = toLufs(mean(blocks)) + RELATIVE_GATE;
+  const gated = blocks.filter(power => toLufs(power) > relativeGate);
+  return gated.length > 0 ? toLufs(mean(gated)) : -Infinity;
+};
+
+export const measureLoudness = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  control?: TaskControl
+): Promise<LoudnessStats> => {
+  const integrated = await measureIntegrated(channels, sampleRate, subTask(control, 0, LOUDNESS_PROGRESS_SHARE));
+  const truePeak = await measureTruePeak(channels, subTask(control, LOUDNESS_PROGRESS_SHARE, 1));
+
+  let samplePeak = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) samplePeak = Math.max(samplePeak, Math.abs(channel[i]));
+  }
+
+  return { integrated, samplePeak: toDecibels(samplePeak), truePeak: toDecibels(truePeak) };
+};
@@ -0,0 +1,170 @@
+// Master section applied to the finished mix before export: an optional
+// normalization gain followed by an optional true-peak limiter.
+
+import { LoudnessStats, measureLoudness } from './loudness';
+import { getFrameTruePeaks } from './truePeak';
+import { TaskControl, createCheckpoint, subTask } from './task';
+
+export type NormalizeMode = 'off' | 'peak' | 'loudness';
+
+export interface MasterSettings {
+  normalize: NormalizeMode;
+  peakTarget: number; // dBFS sample peak, for peak normalization
+  loudnessTarget: number; // LUFS, for loudness normalization
+  limiter: boolean;
+  ceiling: number; // dBTP
+}
+
+export const DEFAULT_MASTER_SETTINGS: MasterSettings = {
+  normalize: 'off',
+  peakTarget: -1,
+  loudnessTarget: -16,
+  limiter: false,
+  ceiling: -1,
+};
+
+export const LOUDNESS_TARGETS: { value: number; label: string }[] = [
+  { value: -14, label: '-14 LUFS (streaming)' },
+  { value: -16, label: '-16 LUFS (podcast)' },
+  { value: -23, label: '-23 LUFS (EBU R128)' },
+];
+
+export const LIMITER_CEILINGS = [0, -0.3, -0.5, -1, -2];
+
+// Before and after figures for the mix, as shown before export
+export interface MasterAnalysis {
+  input: LoudnessStats;
+  output: LoudnessStats;
+}
+
+// The limiter looks this far ahead so it can ease into gain reduction, and
+// recovers with this time constant
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.1;
+
+// Frames processed between progress checkpoints
+const BLOCK_FRAMES = 1 << 16;
+
+export const isMasterActive = (settings: MasterSettings): boolean =>
+  settings.normalize !== 'off' || settings.limiter;
+
+const dbToLinear = (db: number) => Math.pow(10, db / 20);
+
+// Gain in dB that brings the mix to the normalization target. Silent mixes
+// are left alone.
+export const getNormalizeGain = (settings: MasterSettings, stats: LoudnessStats): number => {
+  switch (settings.normalize) {
+    case 'peak':
+      return Number.isFinite(stats.samplePeak) ? settings.peakTarget - stats.samplePeak : 0;
+    case 'loudness':
+      return Number.isFinite(stats.integrated) ? settings.loudnessTarget - stats.integrated : 0;
+    default:
+      return 0;
+  }
+};
+
+// Gain curve of a lookahead limiter holding the true peak of `channels` scaled
+// by `preGain` at or below `ceiling` (linear). Each frame's gain is the
+// moving average, over the lookahead, of the smallest gain needed within the
+// lookahead, so reduction ramps in before a peak and never falls short of it.
+const getLimiterGain = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  preGain: number,
+  ceiling: number,
+  control?: TaskControl
+): Promise<Float32Array> => {
+  const peaks = await getFrameTruePeaks(channels, ceiling / preGain, subTask(control, 0, 0.7));
+  const length = peaks.length;
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * sampleRate));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * sampleRate));
+  const checkpoint = createCheckpoint(subTask(control, 0.7, 1));
+
+  // Gain each frame needs on its own, reusing the peak buffer
+  const needed = peaks;
+  for (let i = 0; i < length; i++) {
+    const peak = peaks[i] * preGain;
+    needed[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  // Minimum over each frame's lookahead window, via a monotonic deque walked
+  // from the end, then released smoothly towards unity
+  const held = new Float32Array(length);
+  const deque = new Int32Array(length);
+  let head = 0;
+  let tail = 0;
+  for (let i = length - 1; i >= 0; i--) {
+    while (tail > head && needed[deque[tail - 1]] >= needed[i]) tail--;
+    deque[tail++] = i;
+    if (deque[head] >= i + lookahead) head++;
+    held[i] = needed[deque[head]];
+  }
+  for (let i = 1; i < length; i++) {
+    held[i] = Math.min(held[i], held[i - 1] + (1 - held[i - 1]) * release);
+  }
+
+  // Moving average over the lookahead. Frames before the start count as the
+  // first frame, which already covers them.
+  const gain = needed;
+  let sum = held[0] * lookahead;
+  for (let i = 0; i < length; i++) {
+    if (i % BLOCK_FRAMES === 0) await checkpoint(i / length);
+    sum += held[i] - held[Math.max(0, i - lookahead)];
+    gain[i] = sum / lookahead;
+  }
+
+  control?.onProgress?.(1);
+  return gain;
+};
+
+// Runs the mix through the master section. Normalization needs the mix's own
+// figures; they are measured here unless passed in as `inputStats`.
+export const processMaster = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: MasterSettings,
+  inputStats?: LoudnessStats,
+  control?: TaskControl
+): Promise<Float32Array[]> => {
+  const measureShare = settings.normalize !== 'off' && !inputStats ? 0.4 : 0;
+  const stats = measureShare > 0
+    ? await measureLoudness(channels, sampleRate, subTask(control, 0, measureShare))
+    : inputStats;
+  const preGain = stats ? dbToLinear(getNormalizeGain(settings, stats)) : 1;
+
+  const limitEnd = settings.limiter ? measureShare + (1 - measureShare) * 0.8 : measureShare;
+  const gain = settings.limiter
+    ? await getLimiterGain(channels, sampleRate, preGain, dbToLinear(settings.ceiling), subTask(control, measureShare, limitEnd))
+    : null;
+
+  const checkpoint = createCheckpoint(subTask(control, limitEnd, 1));
+  const output = channels.map(channel => new Float32Array(channel.length));
+  for (const [index, channel] of channels.entries()) {
+    const out = output[index];
+    for (let start = 0; start < channel.length; start += BLOCK_FRAMES) {
+      await checkpoint((index + start / channel.length) / channels.length);
+      const end = Math.min(channel.length, start + BLOCK_FRAMES);
+      for (let i = start; i < end; i++) out[i] = channel[i] * preGain * (gain ? gain[i] : 1);
+    }
+  }
+
+  control?.onProgress?.(1);
+  return output;
+};
+
+// Measures the mix, runs it through the master section and measures the result
+export const analyzeMaster = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  settings: MasterSettings,
+  control?: TaskControl
+): Promise<MasterAnalysis> => {
+  const input = await measureLoudness(channels, sampleRate, subTask(control, 0, 0.35));
+  if (!isMasterActive(settings)) {
+    control?.onProgress?.(1);
+    return { input, output: input };
+  }
+  const processed = await processMaster(channels, sampleRate, settings, input, subTask(control, 0.35, 0.65));
+  const output = await measureLoudness(processed, sampleRate, subTask(control, 0.65, 1));
+  return { input, output };
+};
@@ -0,0 +1,87 @@
+// Incremental MD5 (RFC 1321). Only used for the FLAC STREAMINFO checksum,
+// which the browser's SubtleCrypto does not offer.
+
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0);
+
+export const createMd5 = () => {
+  const state = new Int32Array([0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476]);
+  const block = new Uint8Array(64);
+  const words = new Int32Array(16);
+  let blockLength = 0;
+  let totalBytes = 0;
+
+  const processBlock = () => {
+    for (let i = 0; i < 16; i++) {
+      words[i] = block[i * 4] | (block[i * 4 + 1] << 8) | (block[i * 4 + 2] << 16) | (block[i * 4 + 3] << 24);
+    }
+
+    let a = state[0];
+    let b = state[1];
+    let c = state[2];
+    let d = state[3];
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) & 15;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) & 15;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) & 15;
+      }
+
+      const sum = (a + f + CONSTANTS[i] + words[g]) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+  };
+
+  const update = (bytes: Uint8Array) => {
+    totalBytes += bytes.length;
+    for (let i = 0; i < bytes.length; i++) {
+      block[blockLength++] = bytes[i];
+      if (blockLength === 64) {
+        processBlock();
+        blockLength = 0;
+      }
+    }
+  };
+
+  const digest = (): Uint8Array => {
+    const bitLength = totalBytes * 8;
+    const padding = new Uint8Array(((blockLength < 56 ? 56 : 120) - blockLength) + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, bitLength % 0x100000000, true);
+    view.setUint32(padding.length - 4, Math.floor(bitLength / 0x100000000), true);
+    update(padding);
+
+    const result = new Uint8Array(16);
+    const resultView = new DataView(result.buffer);
+    state.forEach((word, i) => resultView.setInt32(i * 4, word, true));
+    return result;
+  };
+
+  return { update, digest };
+};
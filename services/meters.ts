@@ -0,0 +1,121 @@
+// Level metering and spectrum analysis on the live playback graph. Meters
+// tap the signal with analyser nodes and are read once per animation frame.
+
+// Lowest level the meters show
+export const METER_FLOOR_DB = -60;
+
+// Peak hold stays put this long, then falls at the given rate
+const PEAK_HOLD_SECONDS = 1.5;
+const PEAK_FALL_DB_PER_SECOND = 20;
+
+// Samples looked at per read; a little more than one frame at 60 fps
+const METER_WINDOW = 2048;
+
+// FFT size of the spectrum analyzer, and how much each frame blends into the last
+const SPECTRUM_FFT_SIZE = 4096;
+const SPECTRUM_SMOOTHING = 0.75;
+
+// Levels of one stereo signal in dBFS, left then right
+export interface MeterReading {
+  peak: number[];
+  rms: number[];
+  hold: number[];
+  clipped: boolean[]; // Latched until reset
+}
+
+export interface MeterSnapshot {
+  master: MeterReading;
+  tracks: Record<string, MeterReading>; // By clip id, for clips that have played
+  spectrum: Float32Array; // dB per FFT bin, from 0 Hz to half the sample rate
+}
+
+const toDb = (linear: number) => (linear > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(linear)) : METER_FLOOR_DB);
+
+// Stereo peak/RMS meter with peak hold and clip latch. Whatever is connected
+// to `input` is measured; mono signals are shown on both sides.
+export const createLevelMeter = (context: BaseAudioContext) => {
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = 'explicit';
+  input.channelInterpretation = 'speakers';
+
+  const splitter = context.createChannelSplitter(2);
+  input.connect(splitter);
+  const analysers = [0, 1].map(channel => {
+    const analyser = context.createAnalyser();
+    analyser.fftSize = METER_WINDOW;
+    splitter.connect(analyser, channel);
+    return analyser;
+  });
+
+  const samples = new Float32Array(METER_WINDOW);
+  const hold = [METER_FLOOR_DB, METER_FLOOR_DB];
+  const heldAt = [0, 0];
+  const clipped = [false, false];
+
+  return {
+    input: input as AudioNode,
+
+    read: (now: number): MeterReading => {
+      const reading: MeterReading = { peak: [], rms: [], hold: [], clipped: [] };
+      analysers.forEach((analyser, channel) => {
+        analyser.getFloatTimeDomainData(samples);
+        let max = 0;
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) {
+          const x = Math.abs(samples[i]);
+          if (x > max) max = x;
+          sum += x * x;
+        }
+        if (max >= 1) clipped[channel] = true;
+        const peak = toDb(max);
+        reading.peak.push(peak);
+        reading.rms.push(toDb(Math.sqrt(sum / samples.length)));
+
+        // A new peak at or above the falling hold takes its place
+        const held = hold[channel] - Math.max(0, now - heldAt[channel] - PEAK_HOLD_SECONDS) * PEAK_FALL_DB_PER_SECOND;
+        if (peak >= held) {
+          hold[channel] = peak;
+          heldAt[channel] = now;
+        }
+        reading.hold.push(Math.max(peak, held));
+        reading.clipped.push(clipped[channel]);
+      });
+      return reading;
+    },
+
+    resetClip: () => {
+      clipped.fill(false);
+    },
+
+    disconnect: () => {
+      input.disconnect();
+      splitter.disconnect();
+    },
+  };
+};
+
+export type LevelMeter = ReturnType<typeof createLevelMeter>;
+
+// Real-time magnitude spectrum of whatever is connected to `input`
+export const createSpectrumAnalyzer = (context: BaseAudioContext) => {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = SPECTRUM_FFT_SIZE;
+  analyser.smoothingTimeConstant = SPECTRUM_SMOOTHING;
+  analyser.minDecibels = -100;
+  analyser.maxDecibels = 0;
+
+  return {
+    input: analyser as AudioNode,
+
+    read: (): Float32Array => {
+      const bins = new Float32Array(analyser.frequencyBinCount);
+      analyser.getFloatFrequencyData(bins);
+      return bins;
+    },
+
+    disconnect: () => analyser.disconnect(),
+  };
+};
+
+export type SpectrumAnalyzer = ReturnType<typeof createSpectrumAnalyzer>;
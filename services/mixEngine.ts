@@ -0,0 +1,206 @@
+import { AutomationPoint, ClipSettings, Effect } from '../types';
+import { ClipFades, createFadeEnvelope, getEffectiveFades } from './fades';
+import { dbToGain, getArrangementDuration, isTrackAudible } from './trackUtils';
+import { TaskControl, createCheckpoint, subTask } from './task';
+import { getActiveEffects, processEffects } from './effects';
+import { createAutomationGain } from './automation';
+
+// Rate everything is mixed at. Sources are decoded or resampled to it first.
+export const MIX_SAMPLE_RATE = 44100;
+
+export interface MixOptions {
+  autoCrossfade: boolean;
+}
+
+export const DEFAULT_MIX_OPTIONS: MixOptions = {
+  autoCrossfade: false,
+};
+
+// A clip reduced to what the mixer needs. Jobs are plain data so they can be
+// posted to the render worker; audio is referenced by source id.
+export interface MixClip {
+  id: string; // Track id
+  sourceId: string;
+  startTime: number;
+  trimStart: number;
+  trimEnd: number;
+  gain: number; // linear
+  pan: number;
+  fades: ClipFades;
+  effects: Effect[]; // Active effects only
+  envelope: AutomationPoint[];
+}
+
+export interface MixJob {
+  clips: MixClip[];
+  sampleRate: number;
+  length: number; // Output length in frames
+}
+
+export interface MixSource {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+// Output frames mixed between progress checkpoints
+const BLOCK_FRAMES = 1 << 16;
+
+// Share of a render's progress spent on clip effects, when any clip has some
+const EFFECTS_PROGRESS_SHARE = 0.5;
+
+// Source frames [offset, end) a clip plays
+export const getSourceRegion = (clip: MixClip, sampleRate: number, sourceLength: number) => {
+  const offset = Math.floor(clip.trimStart * sampleRate);
+  return { offset, end: Math.min(sourceLength, Math.floor(clip.trimEnd * sampleRate)) };
+};
+
+// The part of a clip's source it plays, run through its effects. Live
+// playback and the renderer both mix clips with effects from this.
+export const processClipSource = (
+  clip: MixClip,
+  channels: Float32Array[],
+  sampleRate: number,
+  control?: TaskControl
+): Promise<Float32Array[]> => {
+  const { offset, end } = getSourceRegion(clip, sampleRate, channels[0].length);
+  return processEffects(channels.map(channel => channel.subarray(offset, end)), sampleRate, clip.effects, control);
+};
+
+// Equal-power pan gains, matching the Web Audio StereoPannerNode algorithm.
+// Mono sources are spread across both channels (-3 dB each at center);
+// stereo sources are balanced by folding one side into the other.
+const panGains = (pan: number): { left: number; right: number } => {
+  const p = Math.max(-1, Math.min(1, pan));
+  const x = (p + 1) / 2;
+  return { left: Math.cos(x * Math.PI / 2), right: Math.sin(x * Math.PI / 2) };
+};
+
+const stereoBalanceGains = (pan: number): { left: number; right: number } => {
+  const p = Math.max(-1, Math.min(1, pan));
+  const x = p <= 0 ? p + 1 : p;
+  return { left: Math.cos(x * Math.PI / 2), right: Math.sin(x * Math.PI / 2) };
+};
+
+// Resolves solo/mute, volume and crossfades into a render job. Silent clips
+// are left out entirely. Clips are mixed in the order given, which keeps the
+// floating-point sums, and so the output, the same on every run.
+export const createMixJob = <T extends ClipSettings>(
+  tracks: T[],
+  options: MixOptions,
+  sampleRate: number,
+  getSourceId: (track: T) => string
+): MixJob => {
+  const fades = getEffectiveFades(tracks, options.autoCrossfade);
+  const clips: MixClip[] = [];
+
+  for (const track of tracks) {
+    if (!isTrackAudible(track, tracks)) continue;
+
+    const gain = dbToGain(track.volume);
+    if (gain === 0) continue;
+
+    clips.push({
+      id: track.id,
+      sourceId: getSourceId(track),
+      startTime: track.startTime,
+      trimStart: track.trimStart,
+      trimEnd: track.trimEnd,
+      gain,
+      pan: track.pan,
+      fades: fades.get(track.id)!,
+      effects: getActiveEffects(track.effects),
+      envelope: track.volumeEnvelope,
+    });
+  }
+
+  return { clips, sampleRate, length: Math.ceil(getArrangementDuration(tracks) * sampleRate) };
+};
+
+// Mixes a job down to stereo. Runs block by block so progress can be reported
+// and the render cancelled through `control`.
+export const renderMix = async (
+  job: MixJob,
+  sources: Map<string, MixSource>,
+  control?: TaskControl
+): Promise<Float32Array[]> => {
+  const outLeft = new Float32Array(job.length);
+  const outRight = new Float32Array(job.length);
+  const withEffects = job.clips.filter(clip => clip.effects.length > 0);
+  const effectsShare = withEffects.length > 0 ? EFFECTS_PROGRESS_SHARE : 0;
+  const checkpoint = createCheckpoint(subTask(control, effectsShare, 1));
+
+  // Clips with effects mix from their processed region instead of the source
+  const processed = new Map<string, MixSource>();
+  for (const [index, clip] of withEffects.entries()) {
+    const source = sources.get(clip.sourceId);
+    if (!source) throw new Error(`Missing audio source ${clip.sourceId}`);
+    const share = effectsShare / withEffects.length;
+    const channels = await processClipSource(clip, source.channels, source.sampleRate, subTask(control, index * share, (index + 1) * share));
+    processed.set(clip.id, { channels, sampleRate: source.sampleRate });
+  }
+
+  const clips = job.clips.map(clip => {
+    const original = sources.get(clip.sourceId);
+    if (!original) throw new Error(`Missing audio source ${clip.sourceId}`);
+    const source = processed.get(clip.id) ?? original;
+
+    const startSample = Math.floor(clip.startTime * job.sampleRate);
+    const region = processed.has(clip.id)
+      ? { offset: 0, end: source.channels[0].length }
+      : getSourceRegion(clip, source.sampleRate, source.channels[0].length);
+    const sourceOffset = region.offset;
+    const sourceEnd = region.end;
+    return {
+      clip,
+      source,
+      startSample,
+      sourceOffset,
+      endSample: startSample + Math.min(sourceEnd - sourceOffset, job.length - startSample),
+      envelope: createFadeEnvelope(clip.fades, sourceEnd - sourceOffset, job.sampleRate),
+      automation: createAutomationGain(clip.envelope, clip.trimStart, job.sampleRate),
+    };
+  });
+
+  for (let blockStart = 0; blockStart < job.length; blockStart += BLOCK_FRAMES) {
+    await checkpoint(blockStart / job.length);
+    const blockEnd = Math.min(job.length, blockStart + BLOCK_FRAMES);
+
+    for (const { clip, source, startSample, sourceOffset, endSample, envelope, automation } of clips) {
+      // Indices relative to the clip's first audible sample
+      const from = Math.max(blockStart, startSample) - startSample;
+      const to = Math.min(blockEnd, endSample) - startSample;
+      if (from >= to) continue;
+
+      if (source.channels.length === 1) {
+        const input = source.channels[0];
+        const { left, right } = panGains(clip.pan);
+
+        for (let i = from; i < to; i++) {
+          const x = input[sourceOffset + i] * clip.gain * envelope(i) * (automation ? automation(i) : 1);
+          outLeft[startSample + i] += x * left;
+          outRight[startSample + i] += x * right;
+        }
+      } else {
+        // Extra channels beyond stereo are ignored
+        const [inLeft, inRight] = source.channels;
+        const { left, right } = stereoBalanceGains(clip.pan);
+
+        for (let i = from; i < to; i++) {
+          const g = clip.gain * envelope(i) * (automation ? automation(i) : 1);
+          const l = inLeft[sourceOffset + i] * g;
+          const r = inRight[sourceOffset + i] * g;
+          if (clip.pan <= 0) {
+            outLeft[startSample + i] += l + r * left;
+            outRight[startSample + i] += r * right;
+          } else {
+            outLeft[startSample + i] += l * left;
+            outRight[startSample + i] += r + l * right;
+          }
+        }
+      }
+    }
+  }
+
+  control?.onProgress?.(1);
+  return [outLeft, outRight];
+};
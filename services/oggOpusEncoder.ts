@@ -0,0 +1,212 @@
+import { AudioTags, encodeVorbisComment } from './audioTags';
+import { TaskControl, createCheckpoint } from './task';
+
+export interface OpusEncodeOptions {
+  bitrate: number; // bits per second
+  tags?: AudioTags;
+}
+
+// Opus always runs at 48 kHz; the mix is resampled before encoding
+export const OPUS_SAMPLE_RATE = 48000;
+
+const FRAME_DURATION_US = 20000;
+const FRAME_SAMPLES = (OPUS_SAMPLE_RATE * FRAME_DURATION_US) / 1_000_000;
+
+// Encoder lookahead of libopus at 48 kHz, used when the browser does not
+// report its own identification header
+const DEFAULT_PRE_SKIP = 312;
+
+// Frames handed to the encoder per AudioData, and packets grouped per page
+const INPUT_CHUNK_FRAMES = OPUS_SAMPLE_RATE;
+const PACKETS_PER_PAGE = 50;
+
+// AudioData objects allowed to wait in the encoder before feeding pauses, so
+// progress follows the encoder rather than the enqueueing
+const MAX_QUEUED_CHUNKS = 2;
+
+const STREAM_SERIAL = 0x53574f50;
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+
+const CRC_TABLE = new Uint32Array(256).map((_, i) => {
+  let crc = i << 24;
+  for (let bit = 0; bit < 8; bit++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+  return crc >>> 0;
+});
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const asciiBytes = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0));
+
+// Builds one Ogg page holding whole packets. Packets are never split across
+// pages, which keeps granule positions simple.
+const createOggPage = (packets: Uint8Array[], granulePosition: number, sequence: number, headerType: number) => {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let remaining = packet.length; ; remaining -= 255) {
+      lacing.push(Math.min(255, remaining));
+      if (remaining < 255) break;
+    }
+  }
+
+  const headerSize = 27 + lacing.length;
+  const bodySize = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(headerSize + bodySize);
+  const view = new DataView(page.buffer);
+
+  page.set(asciiBytes('OggS'), 0);
+  view.setUint8(4, 0); // Version
+  view.setUint8(5, headerType);
+  view.setUint32(6, granulePosition % 0x100000000, true);
+  view.setUint32(10, Math.floor(granulePosition / 0x100000000), true);
+  view.setUint32(14, STREAM_SERIAL, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+
+  let offset = headerSize;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+// Identification header (RFC 7845, section 5.1)
+const createOpusHead = (channels: number, preSkip: number, inputSampleRate: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(asciiBytes('OpusHead'), 0);
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Mapping family: mono or stereo
+  return head;
+};
+
+const createOpusTags = (tags: AudioTags) => {
+  const comment = encodeVorbisComment(tags);
+  const packet = new Uint8Array(8 + comment.length);
+  packet.set(asciiBytes('OpusTags'), 0);
+  packet.set(comment, 8);
+  return packet;
+};
+
+// Reads the pre-skip from the encoder's own OpusHead, when it provides one
+const readPreSkip = (description: AllowSharedBufferSource | undefined): number | null => {
+  if (!description) return null;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 12 || String.fromCharCode(...bytes.subarray(0, 8)) !== 'OpusHead') return null;
+  return bytes[10] | (bytes[11] << 8);
+};
+
+const encoderConfig = (channels: number, bitrate: number): AudioEncoderConfig => ({
+  codec: 'opus',
+  sampleRate: OPUS_SAMPLE_RATE,
+  numberOfChannels: channels,
+  bitrate,
+  opus: { frameDuration: FRAME_DURATION_US },
+});
+
+// Opus goes through WebCodecs, which not every browser ships
+export const isOpusEncodingSupported = async (channels: number = 2): Promise<boolean> => {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const support = await AudioEncoder.isConfigSupported(encoderConfig(channels, 128000));
+    return support.supported === true;
+  } catch {
+    return false;
+  }
+};
+
+// Encodes 48 kHz planar channel data to Opus with the browser's AudioEncoder
+// and muxes the packets into an Ogg stream. `originalSampleRate` is only
+// recorded in the header as a playback hint.
+export const encodeOggOpus = async (
+  channels: Float32Array[],
+  originalSampleRate: number,
+  options: OpusEncodeOptions,
+  control?: TaskControl
+): Promise<Blob> => {
+  const numChannels = channels.length;
+  const totalFrames = channels[0]?.length ?? 0;
+  // One frame of trailing silence flushes the encoder's lookahead, so the
+  // end of the mix survives the pre-skip
+  const paddedFrames = totalFrames + FRAME_SAMPLES;
+  const packets: Uint8Array[] = [];
+  let preSkip: number | null = null;
+  let encodeError: DOMException | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const packet = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(packet);
+      packets.push(packet);
+      if (preSkip === null) preSkip = readPreSkip(metadata?.decoderConfig?.description);
+    },
+    error: (error) => {
+      encodeError = error;
+    },
+  });
+  encoder.configure(encoderConfig(numChannels, options.bitrate));
+  const checkpoint = createCheckpoint(control);
+
+  try {
+    for (let start = 0; start < paddedFrames; start += INPUT_CHUNK_FRAMES) {
+      await checkpoint(start / paddedFrames);
+      const frames = Math.min(INPUT_CHUNK_FRAMES, paddedFrames - start);
+      const planar = new Float32Array(frames * numChannels);
+      channels.forEach((channel, i) => planar.set(channel.subarray(start, start + frames), i * frames));
+
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels: numChannels,
+        timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1_000_000),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+
+      while (encoder.encodeQueueSize > MAX_QUEUED_CHUNKS && encoder.state === 'configured') {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (encodeError) throw encodeError;
+
+  const skip = preSkip ?? DEFAULT_PRE_SKIP;
+  const pages: Uint8Array[] = [
+    createOggPage([createOpusHead(numChannels, skip, originalSampleRate)], 0, 0, HEADER_TYPE_BOS),
+    createOggPage([createOpusTags(options.tags ?? {})], 0, 1, 0),
+  ];
+
+  // Granule positions count decoded 48 kHz samples, pre-skip included. The
+  // last page's position trims the encoder's padding from the end, so packets
+  // lying entirely in that padding are dropped to keep positions increasing.
+  const endGranule = skip + totalFrames;
+  const audioPackets = packets.slice(0, Math.ceil(endGranule / FRAME_SAMPLES));
+  for (let first = 0, sequence = 2; first < audioPackets.length; first += PACKETS_PER_PAGE, sequence++) {
+    const pagePackets = audioPackets.slice(first, first + PACKETS_PER_PAGE);
+    const isLast = first + PACKETS_PER_PAGE >= audioPackets.length;
+    const granule = isLast ? endGranule : (first + pagePackets.length) * FRAME_SAMPLES;
+    pages.push(createOggPage(pagePackets, granule, sequence, isLast ? HEADER_TYPE_EOS : 0));
+  }
+
+  return new Blob(pages, { type: 'audio/ogg; codecs=opus' });
+};
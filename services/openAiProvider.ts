@@ -0,0 +1,68 @@
+import { AiProvider, ProviderError, ProviderNetworkError, getStatusError, readBase64 } from './aiProvider';
+import { createAbortError } from './task';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-audio-preview';
+
+// The audio travels base64 encoded inside the JSON body; servers commonly
+// cap bodies at around 25 MB
+const MAX_BODY_AUDIO_BYTES = Math.floor((24 * 1024 * 1024 * 3) / 4);
+
+export interface OpenAiProviderSettings {
+  baseUrl: string;
+  model: string;
+  apiKey: string; // May be empty for local servers
+}
+
+// Talks to any server implementing the OpenAI chat completions API with audio
+// input, such as a local inference server. Pass `fetchImpl` to run against a
+// mock.
+export const createOpenAiProvider = (
+  settings: OpenAiProviderSettings,
+  fetchImpl: typeof fetch = (input, init) => fetch(input, init)
+): AiProvider => {
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: `openai:${endpoint}:${settings.model}`,
+    maxAudioBytes: MAX_BODY_AUDIO_BYTES,
+    generateJson: async ({ audio, prompt, schemaName, schema, signal }) => {
+      const body = {
+        model: settings.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'input_audio', input_audio: { data: await readBase64(audio), format: 'wav' } },
+            ],
+          },
+        ],
+        response_format: { type: 'json_schema', json_schema: { name: schemaName, schema } },
+      };
+
+      let response: Response;
+      try {
+        response = await fetchImpl(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify(body),
+          signal,
+        });
+      } catch {
+        if (signal?.aborted) throw createAbortError();
+        throw new ProviderNetworkError();
+      }
+
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw getStatusError(response.status, data?.error?.message ?? '');
+
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new ProviderError('The provider sent a reply without any text.');
+      return content;
+    },
+  };
+};
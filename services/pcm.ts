@@ -0,0 +1,29 @@
+// Small deterministic PRNG (xorshift32) for dither, so the same mix always
+// encodes to the same bytes
+const createRandom = (seed: number = 0x9e3779b9) => {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state >>>= 0;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state / 0x100000000;
+  };
+};
+
+// Returns a converter from float samples to signed integers of `bits` width.
+// With dither enabled, triangular PDF noise spanning +/- 1 LSB is added before
+// rounding. The dither sequence is stateful, so samples must be fed in file
+// order (frame by frame, channels interleaved).
+export const createQuantizer = (bits: number, dither: boolean) => {
+  const fullScale = Math.pow(2, bits - 1);
+  const maxInt = fullScale - 1;
+  const random = createRandom();
+
+  return (sample: number): number => {
+    let scaled = sample * fullScale;
+    if (dither) scaled += random() - random();
+    return Math.max(-fullScale, Math.min(maxInt, Math.round(scaled)));
+  };
+};
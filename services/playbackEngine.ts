@@ -0,0 +1,468 @@
+import { AudioTrack, LoopRegion } from '../types';
+import { MixClip, MixJob, MixOptions, createMixJob, getSourceRegion } from './mixEngine';
+import type { RenderTask } from './renderClient';
+import { createFadeEnvelope } from './fades';
+import { generateId } from './trackUtils';
+import { isAbortError } from './task';
+import { automationDbToGain, getEnvelopeDb } from './automation';
+import { LevelMeter, MeterReading, MeterSnapshot, createLevelMeter, createSpectrumAnalyzer } from './meters';
+
+// Live playback: every audible clip gets its own source -> fade -> volume ->
+// pan chain, scheduled against the transport. Clips are described by the
+// same MixJob the offline renderer uses, so what plays is what exports.
+// Every clip and the master output are tapped by level meters.
+
+// Delay before newly scheduled audio starts, so the first samples are never
+// in the past by the time the audio thread sees them
+const SCHEDULE_AHEAD = 0.02;
+
+// Fade envelopes are handed to the gain param as curves sampled from the
+// envelope the export multiplies by: every sample for short fades, and for
+// longer ones MIN_CURVE_POINTS points or one every CURVE_STEP samples,
+// whichever is more. The param interpolates linearly in between, which stays
+// within a thousandth of a dB of the export while keeping the curves of long
+// fades cheap to build on every restart.
+const MIN_CURVE_POINTS = 1024;
+const CURVE_STEP = 64;
+
+// The next loop pass is scheduled this far ahead of the loop end, checked
+// at the given interval
+const LOOP_LOOKAHEAD = 0.1;
+const LOOP_CHECK_INTERVAL = 25;
+
+// Shorter loop regions are ignored
+export const MIN_LOOP_LENGTH = 0.05;
+
+interface Voice {
+  clip: MixClip;
+  source: AudioBufferSourceNode;
+  volume: GainNode;
+  panner: StereoPannerNode;
+  nodes: AudioNode[];
+}
+
+// One run of the transport through the arrangement. Without a loop there is
+// a single open-ended pass; with one, every repeat is a new pass starting
+// where the previous one ends.
+interface Pass {
+  origin: number; // Context time at which transport position 0 plays
+  start: number; // Context time the pass takes over
+  end: number; // Context time the pass stops, Infinity when not looping
+  voices: Map<string, Voice>;
+}
+
+// Parts of a clip that can only change by restarting its source node;
+// volume and pan are adjusted on the running voice
+const timingKey = (clip: MixClip) =>
+  JSON.stringify([clip.sourceId, clip.startTime, clip.trimStart, clip.trimEnd, clip.fades, clip.effects, clip.envelope]);
+
+// Identifies the processed audio of a clip with effects
+const bakeKey = (clip: MixClip) => JSON.stringify([clip.sourceId, clip.trimStart, clip.trimEnd, clip.effects]);
+
+// Runs a clip's effects over the part of `buffer` it plays, off the UI thread
+export type ProcessClip = (clip: MixClip, buffer: AudioBuffer) => RenderTask<Float32Array[]>;
+
+// Renders of a clip's effects start this long (in ms) after they are first
+// asked for, so dragging an effect slider renders once it settles rather
+// than once per step
+const BAKE_DELAY = 150;
+
+// Clips with effects play from a buffer holding their processed region,
+// rendered by the render worker with the same code the export uses
+interface Bake {
+  buffer: AudioBuffer | null; // null while rendering
+  cancel: () => void;
+}
+
+export const createPlaybackEngine = (context: AudioContext, processClip: ProcessClip) => {
+  const master = context.createGain();
+  master.connect(context.destination);
+  const masterMeter = createLevelMeter(context);
+  const spectrum = createSpectrumAnalyzer(context);
+  master.connect(masterMeter.input);
+  master.connect(spectrum.input);
+  // One meter per clip, kept across voices so peak hold and clip latch survive restarts
+  const clipMeters = new Map<string, LevelMeter>();
+
+  const sourceIds = new WeakMap<AudioBuffer, string>();
+  const buffers = new Map<string, AudioBuffer>();
+  const bakes = new Map<string, Bake>();
+  let passes: Pass[] = [];
+  let job: MixJob | null = null;
+  let playing = false;
+  let pausedAt = 0;
+  let playStart = 0; // Where stop() returns to
+  let loop: LoopRegion | null = null;
+  let loopTimer: ReturnType<typeof setInterval> | null = null;
+
+  const getSourceId = (buffer: AudioBuffer): string => {
+    let id = sourceIds.get(buffer);
+    if (!id) {
+      id = generateId();
+      sourceIds.set(buffer, id);
+    }
+    buffers.set(id, buffer);
+    return id;
+  };
+
+  // The pass playing at context time `time`
+  const getPassAt = (time: number): Pass | undefined =>
+    passes.filter(pass => pass.start <= time).pop() ?? passes[0];
+
+  const getPosition = () => {
+    const time = context.currentTime;
+    const pass = getPassAt(time);
+    if (!playing || !pass) return pausedAt;
+    return Math.max(0, Math.max(time, pass.start) - pass.origin);
+  };
+
+  // A pass taking over at context time `at`. It ends at the loop end if the
+  // transport is before it at that moment.
+  const createPass = (origin: number, at: number): Pass => {
+    const position = at - origin;
+    const end = loop && position < loop.end ? origin + loop.end : Infinity;
+    return { origin, start: at, end, voices: new Map() };
+  };
+
+  // Writes the clip's fade envelope onto `param` from `at` onwards
+  const scheduleFades = (param: AudioParam, clip: MixClip, clipStart: number, at: number, length: number) => {
+    const sampleRate = context.sampleRate;
+    const envelope = createFadeEnvelope(clip.fades, length, sampleRate);
+    const first = Math.max(0, Math.round((at - clipStart) * sampleRate));
+    const fadeInEnd = Math.round(clip.fades.fadeIn * sampleRate);
+    const fadeOutStart = length - Math.round(clip.fades.fadeOut * sampleRate);
+
+    const curve = (from: number, to: number) => {
+      const sampled = Math.max(MIN_CURVE_POINTS, Math.ceil((to - from) / CURVE_STEP) + 1);
+      const points = Math.max(2, Math.min(to - from + 1, sampled));
+      return Float32Array.from({ length: points }, (_, i) => envelope(from + ((to - from) * i) / (points - 1)));
+    };
+
+    // Curves may not overlap other events, so each segment starts exactly
+    // where the previous one ends
+    const fadeOutFrom = Math.max(first, fadeOutStart, fadeInEnd);
+    const fadeOutAt = fadeOutFrom === first ? at : clipStart + fadeOutFrom / sampleRate;
+    const clipEnd = clipStart + length / sampleRate;
+
+    const fadeInAt = clipStart + fadeInEnd / sampleRate;
+
+    if (first < fadeInEnd && fadeInAt > at) {
+      param.setValueCurveAtTime(curve(first, fadeInEnd), at, fadeInAt - at);
+    } else if (fadeOutAt > at) {
+      param.setValueAtTime(envelope(first), at);
+    }
+    if (fadeOutFrom < length) {
+      param.setValueCurveAtTime(curve(fadeOutFrom, length), fadeOutAt, clipEnd - fadeOutAt);
+    }
+  };
+
+  // Writes the clip's volume envelope onto `param` between `at` and `until`.
+  // Gain moves linearly in dB between points, which is exactly an
+  // exponential ramp.
+  const scheduleAutomation = (param: AudioParam, clip: MixClip, clipStart: number, at: number, until: number) => {
+    const gainAt = (time: number) => automationDbToGain(getEnvelopeDb(clip.envelope, clip.trimStart + (time - clipStart)));
+    param.setValueAtTime(gainAt(at), at);
+    for (const point of clip.envelope) {
+      const time = clipStart + (point.time - clip.trimStart);
+      if (time <= at) continue;
+      if (time >= until) {
+        param.exponentialRampToValueAtTime(gainAt(until), until);
+        break;
+      }
+      param.exponentialRampToValueAtTime(automationDbToGain(point.gain), time);
+    }
+  };
+
+  const getClipMeter = (id: string): LevelMeter => {
+    let meter = clipMeters.get(id);
+    if (!meter) {
+      meter = createLevelMeter(context);
+      clipMeters.set(id, meter);
+    }
+    return meter;
+  };
+
+  // Returns the processed buffer for a clip with effects, starting the render
+  // if needed. Once it is ready, playing passes pick the clip up.
+  const getBake = (clip: MixClip): AudioBuffer | null => {
+    const key = bakeKey(clip);
+    const existing = bakes.get(key);
+    if (existing) return existing.buffer;
+
+    const source = buffers.get(clip.sourceId);
+    if (!source) return null;
+    const bake: Bake = { buffer: null, cancel: () => clearTimeout(timer) };
+    bakes.set(key, bake);
+    const timer = setTimeout(() => {
+      const task = processClip(clip, source);
+      bake.cancel = task.cancel;
+      task.promise
+        .then(processed => {
+          const buffer = context.createBuffer(processed.length, processed[0].length, source.sampleRate);
+          processed.forEach((channel, i) => buffer.copyToChannel(channel, i));
+          bake.buffer = buffer;
+          if (playing) passes.forEach(syncPass);
+        })
+        .catch(error => {
+          bakes.delete(key);
+          if (!isAbortError(error)) console.error("Error processing clip effects:", error);
+        });
+    }, BAKE_DELAY);
+    return null;
+  };
+
+  // True while a clip's effects are being rendered for its current settings
+  const isBaking = (clip: MixClip) => clip.effects.length > 0 && getBake(clip) === null;
+
+  // Starts a clip within `pass` from context time `at`, or from its own start
+  // if that is later. Returns null for clips that do not sound in the pass,
+  // or whose effects are still being rendered.
+  const startVoice = (clip: MixClip, pass: Pass, at: number): Voice | null => {
+    const original = buffers.get(clip.sourceId);
+    if (!original) return null;
+    const buffer = clip.effects.length > 0 ? getBake(clip) : original;
+    if (!buffer) return null;
+
+    const region = buffer === original
+      ? getSourceRegion(clip, buffer.sampleRate, buffer.length)
+      : { offset: 0, end: buffer.length };
+    const sourceOffset = region.offset;
+    const length = region.end - sourceOffset;
+    const clipStart = pass.origin + Math.floor(clip.startTime * context.sampleRate) / context.sampleRate;
+    const clipEnd = clipStart + length / buffer.sampleRate;
+    const when = Math.max(at, clipStart);
+    const until = Math.min(clipEnd, pass.end);
+    if (length <= 0 || when >= until) return null;
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const fade = context.createGain();
+    const automation = context.createGain();
+    const volume = context.createGain();
+    const panner = context.createStereoPanner();
+
+    scheduleFades(fade.gain, clip, clipStart, when, length);
+    if (clip.envelope.length > 0) scheduleAutomation(automation.gain, clip, clipStart, when, until);
+    volume.gain.value = clip.gain;
+    panner.pan.value = clip.pan;
+
+    source.connect(fade);
+    fade.connect(automation);
+    automation.connect(volume);
+    volume.connect(panner);
+    panner.connect(master);
+    panner.connect(getClipMeter(clip.id).input);
+
+    const offset = sourceOffset / buffer.sampleRate + (when - clipStart);
+    source.start(when, offset, until - when);
+
+    const nodes = [source, fade, automation, volume, panner];
+    source.onended = () => nodes.forEach(node => node.disconnect());
+
+    return { clip, source, volume, panner, nodes };
+  };
+
+  const stopVoice = (voice: Voice, at: number = 0) => {
+    try {
+      voice.source.stop(at);
+    } catch {
+      // Never started or already stopped
+    }
+  };
+
+  const stopAll = (at: number = 0) => {
+    passes.forEach(pass => pass.voices.forEach(voice => stopVoice(voice, at)));
+    passes = [];
+  };
+
+  // Brings a pass's voices in line with the current job: new and moved clips
+  // are (re)started, removed ones stop, and volume or pan changes are applied
+  // in place. A clip whose effects are being rendered again keeps playing
+  // as it was until the render is ready.
+  const syncPass = (pass: Pass) => {
+    if (!job) return;
+    const at = Math.max(context.currentTime + SCHEDULE_AHEAD, pass.start);
+    const next = new Map<string, Voice>();
+
+    for (const clip of job.clips) {
+      const voice = pass.voices.get(clip.id);
+      const unchanged = voice && timingKey(voice.clip) === timingKey(clip);
+      if (voice && (unchanged || isBaking(clip))) {
+        if (voice.clip.gain !== clip.gain) voice.volume.gain.setValueAtTime(clip.gain, at);
+        if (voice.clip.pan !== clip.pan) voice.panner.pan.setValueAtTime(clip.pan, at);
+        // A held voice keeps its old timing so it is replaced once the render is in
+        voice.clip = unchanged ? clip : { ...voice.clip, gain: clip.gain, pan: clip.pan };
+        next.set(clip.id, voice);
+        continue;
+      }
+
+      if (voice) stopVoice(voice, at);
+      const started = startVoice(clip, pass, at);
+      if (started) next.set(clip.id, started);
+    }
+
+    pass.voices.forEach((voice, id) => {
+      if (!next.has(id)) stopVoice(voice, at);
+    });
+    pass.voices = next;
+  };
+
+  const setJob = (tracks: AudioTrack[], options: MixOptions) => {
+    job = createMixJob(tracks, options, context.sampleRate, track => getSourceId(track.buffer));
+
+    // Buffers of clips no longer in the arrangement can be collected
+    const used = new Set(job.clips.map(clip => clip.sourceId));
+    [...buffers.keys()].forEach(id => {
+      if (!used.has(id)) buffers.delete(id);
+    });
+
+    // Meters of removed clips are dropped with them
+    const ids = new Set(job.clips.map(clip => clip.id));
+    clipMeters.forEach((meter, id) => {
+      if (ids.has(id)) return;
+      meter.disconnect();
+      clipMeters.delete(id);
+    });
+
+    // Same for processed clips; renders still running for them are cancelled
+    const usedBakes = new Set(job.clips.filter(clip => clip.effects.length > 0).map(bakeKey));
+    bakes.forEach((bake, key) => {
+      if (usedBakes.has(key)) return;
+      bake.cancel();
+      bakes.delete(key);
+    });
+
+    // Start rendering effects ahead of playback
+    job.clips.forEach(clip => {
+      if (clip.effects.length > 0) getBake(clip);
+    });
+  };
+
+  // Queues the next loop pass shortly before the last one ends, and forgets
+  // passes that have finished
+  const checkLoop = () => {
+    const now = context.currentTime;
+    passes = passes.filter(pass => pass.end > now);
+
+    const last = passes[passes.length - 1];
+    if (!loop || !last || last.end === Infinity || last.end - now > LOOP_LOOKAHEAD) return;
+
+    const pass = createPass(last.end - loop.start, last.end);
+    passes.push(pass);
+    syncPass(pass);
+  };
+
+  const startLoopTimer = () => {
+    if (loopTimer === null) loopTimer = setInterval(checkLoop, LOOP_CHECK_INTERVAL);
+  };
+
+  const stopLoopTimer = () => {
+    if (loopTimer !== null) clearInterval(loopTimer);
+    loopTimer = null;
+  };
+
+  // Restarts playback from `position` after a short scheduling delay
+  const restart = (position: number) => {
+    stopAll();
+    const at = context.currentTime + SCHEDULE_AHEAD;
+    passes = [createPass(at - position, at)];
+    syncPass(passes[0]);
+    checkLoop();
+  };
+
+  return {
+    getPosition,
+    isPlaying: () => playing,
+
+    // True while playback will wrap around at the loop end
+    isLooping: () => {
+      const pass = getPassAt(context.currentTime);
+      return playing && !!pass && pass.end !== Infinity;
+    },
+
+    play: (tracks: AudioTrack[], options: MixOptions, position: number) => {
+      if (context.state === 'suspended') context.resume();
+      setJob(tracks, options);
+      playing = true;
+      playStart = position;
+      restart(position);
+      startLoopTimer();
+    },
+
+    // Reschedules playback after an edit. While stopped, only clip effects
+    // are rendered ahead.
+    update: (tracks: AudioTrack[], options: MixOptions) => {
+      setJob(tracks, options);
+      if (playing) passes.forEach(syncPass);
+    },
+
+    // Moves the transport; playback carries on from the new position
+    seek: (position: number) => {
+      playStart = Math.max(0, position);
+      if (playing) {
+        restart(playStart);
+      } else {
+        pausedAt = playStart;
+      }
+    },
+
+    // Sets or clears the loop region. While playing, the passes are rebuilt
+    // without moving the transport, so audio continues seamlessly.
+    setLoop: (region: LoopRegion | null) => {
+      loop = region && region.end - region.start >= MIN_LOOP_LENGTH ? region : null;
+      if (!playing) return;
+
+      const at = context.currentTime + SCHEDULE_AHEAD;
+      const current = getPassAt(at);
+      if (!current) return;
+
+      stopAll(at);
+      passes = [createPass(current.origin, at)];
+      syncPass(passes[0]);
+      checkLoop();
+    },
+
+    pause: () => {
+      pausedAt = getPosition();
+      playing = false;
+      stopLoopTimer();
+      stopAll();
+    },
+
+    // Stops and returns to where playback was last started
+    stop: () => {
+      pausedAt = playStart;
+      playing = false;
+      stopLoopTimer();
+      stopAll();
+    },
+
+    // Current levels and spectrum; meant to be polled once per animation frame
+    readMeters: (): MeterSnapshot => {
+      const now = context.currentTime;
+      const tracks: Record<string, MeterReading> = {};
+      clipMeters.forEach((meter, id) => {
+        tracks[id] = meter.read(now);
+      });
+      return { master: masterMeter.read(now), tracks, spectrum: spectrum.read() };
+    },
+
+    resetClipIndicators: () => {
+      masterMeter.resetClip();
+      clipMeters.forEach(meter => meter.resetClip());
+    },
+
+    dispose: () => {
+      stopLoopTimer();
+      stopAll();
+      bakes.forEach(bake => bake.cancel());
+      bakes.clear();
+      master.disconnect();
+      masterMeter.disconnect();
+      spectrum.disconnect();
+      clipMeters.forEach(meter => meter.disconnect());
+    },
+  };
+};
+
+export type PlaybackEngine = ReturnType<typeof createPlaybackEngine>;
@@ -0,0 +1,387 @@
+import { Arrangement, AudioTrack, ClipSettings, Lane } from '../types';
+import { MixOptions, DEFAULT_MIX_OPTIONS } from './mixEngine';
+import { createTrack, generateId } from './trackUtils';
+import { createLane } from './lanes';
+import { EFFECT_PARAMS, EFFECT_TYPES, EQ_BAND_TYPES } from './effects';
+import { FADE_CURVES } from './fades';
+
+export const PROJECT_FILE_EXTENSION = '.sonicweave';
+const PROJECT_FORMAT = 'sonicweave-project';
+
+// Bump whenever the saved shape changes, and add a migration from the previous version
+export const PROJECT_FORMAT_VERSION = 4;
+
+// Everything about a clip except the audio itself, which lives in `sources`
+export type ClipData = ClipSettings & { sourceId: string };
+
+export interface ProjectSource {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  data?: string; // Base64 file contents when the audio is embedded
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  savedAt: string;
+  settings: MixOptions;
+  lanes: Lane[];
+  clips: ClipData[];
+  sources: ProjectSource[];
+}
+
+export class ProjectFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFormatError';
+  }
+}
+
+// Project files are untrusted input, so they are read as loose records and
+// checked field by field before anything else sees them
+type LooseRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is LooseRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isListOf = (value: unknown, isItem: (item: LooseRecord) => boolean): boolean =>
+  Array.isArray(value) && value.every(item => isRecord(item) && isItem(item));
+
+const isEffect = (effect: LooseRecord): boolean => {
+  if (typeof effect.id !== 'string' || typeof effect.bypass !== 'boolean') return false;
+  if (effect.type === 'eq') {
+    return isListOf(
+      effect.bands,
+      band =>
+        EQ_BAND_TYPES.some(type => type.value === band.type) &&
+        isFiniteNumber(band.frequency) &&
+        isFiniteNumber(band.gain) &&
+        isFiniteNumber(band.q)
+    );
+  }
+  const type = EFFECT_TYPES.find(option => option.value === effect.type && option.value !== 'eq');
+  return !!type && EFFECT_PARAMS[type.value as keyof typeof EFFECT_PARAMS].every(param => isFiniteNumber(effect[param.key]));
+};
+
+const isFadeCurve = (value: unknown): boolean => FADE_CURVES.some(curve => curve.value === value);
+
+// Checks for the clip settings that may be left out, and are then filled in
+// from defaults, but have to be valid when present
+const CLIP_SETTING_CHECKS: Partial<Record<keyof ClipSettings, (value: unknown) => boolean>> = {
+  trimStart: isFiniteNumber,
+  trimEnd: isFiniteNumber,
+  volume: isFiniteNumber,
+  pan: isFiniteNumber,
+  fadeIn: isFiniteNumber,
+  fadeOut: isFiniteNumber,
+  muted: value => typeof value === 'boolean',
+  solo: value => typeof value === 'boolean',
+  fadeInCurve: isFadeCurve,
+  fadeOutCurve: isFadeCurve,
+  effects: value => isListOf(value, isEffect),
+  volumeEnvelope: value => isListOf(value, point => isFiniteNumber(point.time) && isFiniteNumber(point.gain)),
+  transcript: value =>
+    isListOf(value, segment => isFiniteNumber(segment.start) && isFiniteNumber(segment.end) && typeof segment.text === 'string'),
+};
+
+const checkClipSettings = (clip: LooseRecord, label: string): void => {
+  for (const [field, check] of Object.entries(CLIP_SETTING_CHECKS)) {
+    if (clip[field] !== undefined && !check(clip[field])) {
+      throw new ProjectFormatError(`${label} has an invalid value for ${field}.`);
+    }
+  }
+};
+
+const checkStartTime = (clip: LooseRecord, label: string): void => {
+  if (!isFiniteNumber(clip.startTime) || clip.startTime < 0) {
+    throw new ProjectFormatError(`${label} has no valid start time.`);
+  }
+};
+
+// Checks a saved clip against the lanes and sources of its project
+const readProjectClip = (clip: unknown, index: number, laneIds: Set<string>, sourceIds: Set<string>): ClipData => {
+  const label = `Clip ${index + 1}`;
+  if (!isRecord(clip) || typeof clip.id !== 'string' || typeof clip.fileName !== 'string') {
+    throw new ProjectFormatError(`${label} is invalid.`);
+  }
+  if (typeof clip.laneId !== 'string' || !laneIds.has(clip.laneId)) {
+    throw new ProjectFormatError(`${label} is not on any lane.`);
+  }
+  if (typeof clip.sourceId !== 'string' || !sourceIds.has(clip.sourceId)) {
+    throw new ProjectFormatError(`${label} refers to audio the project does not list.`);
+  }
+  checkStartTime(clip, label);
+  for (const field of ['trimStart', 'trimEnd'] as const) {
+    if (!isFiniteNumber(clip[field])) throw new ProjectFormatError(`${label} has an invalid value for ${field}.`);
+  }
+  checkClipSettings(clip, label);
+  return clip as unknown as ClipData;
+};
+
+// Mix settings with defaults for any left out
+const readMixOptions = (settings: unknown, label: string): MixOptions => {
+  if (settings === undefined) return DEFAULT_MIX_OPTIONS;
+  if (!isRecord(settings) || (settings.autoCrossfade !== undefined && typeof settings.autoCrossfade !== 'boolean')) {
+    throw new ProjectFormatError(`The ${label} settings are invalid.`);
+  }
+  return { ...DEFAULT_MIX_OPTIONS, ...settings };
+};
+
+const mapClips = (project: LooseRecord, update: (clip: LooseRecord) => LooseRecord): LooseRecord => ({
+  ...project,
+  clips: Array.isArray(project.clips) ? project.clips.map(clip => (isRecord(clip) ? update(clip) : clip)) : project.clips,
+});
+
+// Upgrades a project saved at version N to version N + 1
+const MIGRATIONS: Record<number, (project: LooseRecord) => LooseRecord> = {
+  // Version 2 added per-clip effect chains
+  1: project => mapClips(project, clip => ({ ...clip, effects: [] })),
+  // Version 3 added volume envelopes
+  2: project => mapClips(project, clip => ({ ...clip, volumeEnvelope: [] })),
+  // Version 4 added clip transcripts
+  3: project => mapClips(project, clip => ({ ...clip, transcript: [] })),
+};
+
+const fileToBase64 = (file: Blob): Promise<string> => {
+  const reader = new FileReader();
+  const base64Promise = new Promise<string>((resolve, reject) => {
+    reader.onloadend = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = reject;
+  });
+  reader.readAsDataURL(file);
+  return base64Promise;
+};
+
+const base64ToFile = (source: ProjectSource): File => {
+  const binary = atob(source.data!);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], source.fileName, { type: source.mimeType });
+};
+
+// Gives every distinct source file an id. Clips that share a File share a
+// source. Files already in `known` keep their id, and new ones are added to it.
+export const collectSources = (tracks: AudioTrack[], known?: WeakMap<File, string>): Map<File, string> => {
+  const sources = new Map<File, string>();
+  for (const track of tracks) {
+    if (sources.has(track.file)) continue;
+    const id = known?.get(track.file) ?? generateId();
+    known?.set(track.file, id);
+    sources.set(track.file, id);
+  }
+  return sources;
+};
+
+export const serializeProject = async (
+  name: string,
+  arrangement: Arrangement,
+  settings: MixOptions,
+  options: { embedAudio: boolean; sourceIds?: Map<File, string> }
+): Promise<ProjectFile> => {
+  const sourceIds = options.sourceIds ?? collectSources(arrangement.tracks);
+
+  const sources: ProjectSource[] = [];
+  for (const [file, id] of sourceIds) {
+    sources.push({
+      id,
+      fileName: file.name,
+      mimeType: file.type,
+      size: file.size,
+      data: options.embedAudio ? await fileToBase64(file) : undefined,
+    });
+  }
+
+  const clips = arrangement.tracks.map(({ file, buffer, duration, ...clip }): ClipData => ({
+    ...clip,
+    sourceId: sourceIds.get(file)!,
+  }));
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    settings,
+    lanes: arrangement.lanes,
+    clips,
+    sources,
+  };
+};
+
+// Validates a parsed project and brings it up to the current format version
+export const migrateProject = (raw: unknown): ProjectFile => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new ProjectFormatError('This is not a SonicWeave project file.');
+  }
+  if (typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new ProjectFormatError('The project file has no valid format version.');
+  }
+  if (raw.version > PROJECT_FORMAT_VERSION) {
+    throw new ProjectFormatError('This project was saved by a newer version of SonicWeave.');
+  }
+
+  let project = raw;
+  for (let version = raw.version; version < PROJECT_FORMAT_VERSION; version++) {
+    project = { ...MIGRATIONS[version](project), version: version + 1 };
+  }
+
+  const { lanes, clips, sources, settings } = project;
+  if (!Array.isArray(lanes) || !Array.isArray(clips) || !Array.isArray(sources)) {
+    throw new ProjectFormatError('The project file is incomplete.');
+  }
+  if (!isListOf(lanes, lane => typeof lane.id === 'string' && typeof lane.name === 'string' && typeof lane.color === 'string')) {
+    throw new ProjectFormatError('The project file has an invalid lane.');
+  }
+  if (!isListOf(sources, source => typeof source.id === 'string' && typeof source.fileName === 'string')) {
+    throw new ProjectFormatError('The project file has an invalid audio source.');
+  }
+
+  const laneIds = new Set((lanes as Lane[]).map(lane => lane.id));
+  const sourceIds = new Set((sources as ProjectSource[]).map(source => source.id));
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    name: typeof project.name === 'string' ? project.name : 'Untitled',
+    savedAt: typeof project.savedAt === 'string' ? project.savedAt : '',
+    settings: readMixOptions(settings, 'project'),
+    lanes: lanes as Lane[],
+    clips: clips.map((clip, index) => readProjectClip(clip, index, laneIds, sourceIds)),
+    sources: sources as ProjectSource[],
+  };
+};
+
+export const parseProject = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFormatError('The project file is not valid JSON.');
+  }
+  return migrateProject(raw);
+};
+
+// A hand-written arrangement for the command-line renderer: audio files by
+// path with their start times, optionally any other clip setting, plus mix
+// settings. All clips go on one lane.
+export interface ArrangementClip extends Partial<Omit<ClipSettings, 'id' | 'laneId' | 'fileName'>> {
+  file: string; // Relative to the arrangement, or absolute
+  startTime: number;
+}
+
+export interface ArrangementFile {
+  name?: string;
+  settings?: Partial<MixOptions>;
+  clips: ArrangementClip[];
+}
+
+// Clip fields an arrangement may set besides its file and start time
+const ARRANGEMENT_CLIP_FIELDS = new Set(['file', 'startTime', ...Object.keys(CLIP_SETTING_CHECKS)]);
+
+// Turns an arrangement into a project referencing each distinct file once.
+// Settings a clip leaves out are filled in from its audio when rendering,
+// as for projects saved before those settings existed.
+export const arrangementToProject = (raw: unknown): ProjectFile => {
+  if (!isRecord(raw) || !Array.isArray(raw.clips)) {
+    throw new ProjectFormatError('The arrangement has no list of clips.');
+  }
+  const settings = readMixOptions(raw.settings, 'arrangement');
+
+  const lane = createLane(0);
+  const sources: ProjectSource[] = [];
+  const sourceIds = new Map<string, string>();
+  const clips = raw.clips.map((clip, index): ClipData => {
+    const label = `Clip ${index + 1}`;
+    if (!isRecord(clip) || typeof clip.file !== 'string' || clip.file === '') {
+      throw new ProjectFormatError(`${label} has no file.`);
+    }
+    checkStartTime(clip, label);
+    const unknown = Object.keys(clip).find(field => !ARRANGEMENT_CLIP_FIELDS.has(field));
+    if (unknown) throw new ProjectFormatError(`${label} has an unknown setting: ${unknown}.`);
+    checkClipSettings(clip, label);
+
+    const { file, ...clipSettings } = clip;
+    let sourceId = sourceIds.get(file);
+    if (!sourceId) {
+      sourceId = `source-${sourceIds.size + 1}`;
+      sourceIds.set(file, sourceId);
+      sources.push({ id: sourceId, fileName: file, mimeType: 'audio/wav', size: 0 });
+    }
+    const fileName = file.split(/[\\/]/).pop()!;
+    // Every field is checked above; the ones left out are filled in when rendering
+    return { ...clipSettings, id: generateId(), laneId: lane.id, fileName, sourceId } as unknown as ClipData;
+  });
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    name: typeof raw.name === 'string' ? raw.name : '', // No title tag without one
+    savedAt: new Date().toISOString(),
+    settings,
+    lanes: [lane],
+    clips,
+    sources,
+  };
+};
+
+// Reads either a saved project or a hand-written arrangement
+export const parseArrangementFile = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFormatError('The arrangement is not valid JSON.');
+  }
+  const isProject = !!raw && typeof raw === 'object' && (raw as { format?: unknown }).format === PROJECT_FORMAT;
+  return isProject ? migrateProject(raw) : arrangementToProject(raw);
+};
+
+// Sources that are referenced by name only and have to be supplied by the user
+export const getMissingSources = (project: ProjectFile): ProjectSource[] => {
+  return project.sources.filter(source => !source.data);
+};
+
+// Rebuilds the arrangement, decoding each source once. `files` supplies audio
+// for referenced sources; embedded sources are unpacked from the project.
+// Clips whose audio can't be found are left out.
+export const restoreArrangement = async (
+  project: ProjectFile,
+  files: Map<string, File>,
+  decode: (file: File) => Promise<AudioBuffer>
+): Promise<Arrangement> => {
+  const decoded = new Map<string, { file: File; buffer: AudioBuffer }>();
+  for (const source of project.sources) {
+    const file = files.get(source.id) ?? (source.data ? base64ToFile(source) : undefined);
+    if (!file) continue;
+    decoded.set(source.id, { file, buffer: await decode(file) });
+  }
+
+  const tracks: AudioTrack[] = [];
+  for (const { sourceId, ...clip } of project.clips) {
+    const source = decoded.get(sourceId);
+    if (!source) continue;
+    // Start from defaults so fields added after the project was saved are filled in
+    tracks.push({
+      ...createTrack(source.file, source.buffer, clip.laneId, clip.startTime),
+      ...clip,
+      file: source.file,
+      buffer: source.buffer,
+      duration: source.buffer.duration,
+    });
+  }
+
+  return { lanes: project.lanes, tracks };
+};
+
+export const projectToBlob = (project: ProjectFile): Blob => {
+  return new Blob([JSON.stringify(project)], { type: 'application/json' });
+};
@@ -0,0 +1,187 @@
+import type { RenderPhase, RenderRequest, RenderResponse } from './renderWorker';
+import { AudioTrack } from '../types';
+import { MixClip, MixJob, MixOptions, createMixJob } from './mixEngine';
+import { ExportSettings } from './exportAudio';
+import { AudioTags } from './audioTags';
+import { WavMarker } from './wavEncoder';
+import { MasterAnalysis, MasterSettings } from './masterBus';
+import { createAbortError } from './task';
+import { generateId } from './trackUtils';
+
+export type { RenderPhase };
+
+// A render running in the worker. Cancelling rejects `promise` with an
+// AbortError straight away; the worker stops at its next checkpoint.
+export interface RenderTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+export type RenderProgressHandler = (phase: RenderPhase, fraction: number) => void;
+
+interface PendingJob {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress: RenderProgressHandler;
+}
+
+// Owns the render worker and keeps its cache of decoded sources in step with
+// the arrangement being rendered
+export const createRenderClient = () => {
+  const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  const sourceIds = new WeakMap<AudioBuffer, string>();
+  const sentSources = new Set<string>();
+  const pending = new Map<number, PendingJob>();
+  let nextJobId = 1;
+
+  const post = (request: RenderRequest, transfer: Transferable[] = []) => {
+    worker.postMessage(request, transfer);
+  };
+
+  worker.onmessage = (event: MessageEvent<RenderResponse>) => {
+    const response = event.data;
+    const job = pending.get(response.jobId);
+    if (!job) return; // Cancelled
+
+    switch (response.type) {
+      case 'progress':
+        job.onProgress(response.phase, response.fraction);
+        break;
+      case 'processed':
+        pending.delete(response.jobId);
+        job.resolve(response.channels);
+        break;
+      case 'exported':
+        pending.delete(response.jobId);
+        job.resolve(response.blob);
+        break;
+      case 'analyzed':
+        pending.delete(response.jobId);
+        job.resolve(response.analysis);
+        break;
+      case 'error':
+        pending.delete(response.jobId);
+        job.reject(new Error(response.message));
+        break;
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error("Render worker failed:", event.message);
+    for (const job of pending.values()) job.reject(new Error(event.message));
+    pending.clear();
+  };
+
+  const getSourceId = (buffer: AudioBuffer): string => {
+    let id = sourceIds.get(buffer);
+    if (!id) {
+      id = generateId();
+      sourceIds.set(buffer, id);
+    }
+    return id;
+  };
+
+  // Sends audio the worker has not seen yet. Channel data is copied, then
+  // transferred, so the UI keeps its buffers.
+  const sendSources = (buffers: AudioBuffer[]) => {
+    const sources: ({ id: string; channels: Float32Array[]; sampleRate: number })[] = [];
+    for (const buffer of buffers) {
+      const id = getSourceId(buffer);
+      if (sentSources.has(id)) continue;
+      sentSources.add(id);
+      sources.push({
+        id,
+        sampleRate: buffer.sampleRate,
+        channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice()),
+      });
+    }
+    if (sources.length > 0) {
+      post({ type: 'sources', sources }, sources.flatMap(source => source.channels.map(channel => channel.buffer)));
+    }
+  };
+
+  // Sends the audio a job needs and drops what it no longer uses
+  const syncSources = (tracks: AudioTrack[], job: MixJob) => {
+    const used = new Set(job.clips.map(clip => clip.sourceId));
+
+    const unused = [...sentSources].filter(id => !used.has(id));
+    if (unused.length > 0) {
+      unused.forEach(id => sentSources.delete(id));
+      post({ type: 'release', ids: unused });
+    }
+
+    sendSources(tracks.map(track => track.buffer).filter(buffer => used.has(getSourceId(buffer))));
+  };
+
+  const run = <T>(onProgress: RenderProgressHandler, createRequest: (jobId: number) => RenderRequest): RenderTask<T> => {
+    const jobId = nextJobId++;
+    // The worker answers each request type with its own result type
+    const promise = new Promise<T>((resolve, reject) => {
+      pending.set(jobId, { resolve: value => resolve(value as T), reject, onProgress });
+    });
+    post(createRequest(jobId));
+
+    return {
+      promise,
+      cancel: () => {
+        const entry = pending.get(jobId);
+        if (!entry) return;
+        pending.delete(jobId);
+        post({ type: 'cancel', jobId });
+        entry.reject(createAbortError());
+      },
+    };
+  };
+
+  const start = <T>(
+    tracks: AudioTrack[],
+    options: MixOptions,
+    sampleRate: number,
+    onProgress: RenderProgressHandler,
+    createRequest: (jobId: number, job: MixJob) => RenderRequest
+  ): RenderTask<T> => {
+    const job = createMixJob(tracks, options, sampleRate, track => getSourceId(track.buffer));
+    syncSources(tracks, job);
+    return run<T>(onProgress, jobId => createRequest(jobId, job));
+  };
+
+  return {
+    // Runs a clip's effects over the part of `buffer` it plays, for live
+    // playback. The clip's source id is replaced with the worker's own.
+    processClip: (clip: MixClip, buffer: AudioBuffer, onProgress: RenderProgressHandler = () => {}) => {
+      sendSources([buffer]);
+      const sourceId = getSourceId(buffer);
+      return run<Float32Array[]>(onProgress, jobId => ({ type: 'process', jobId, clip: { ...clip, sourceId } }));
+    },
+
+    // Renders the mix and encodes it with the given export settings
+    exportMix: (
+      tracks: AudioTrack[],
+      options: MixOptions,
+      sampleRate: number,
+      settings: ExportSettings,
+      tags: AudioTags,
+      markers: WavMarker[],
+      onProgress: RenderProgressHandler
+    ) =>
+      start<Blob>(tracks, options, sampleRate, onProgress, (jobId, job) => ({ type: 'export', jobId, job, settings, tags, markers })),
+
+    // Measures loudness and peaks of the mix before and after the master section
+    analyze: (
+      tracks: AudioTrack[],
+      options: MixOptions,
+      sampleRate: number,
+      master: MasterSettings,
+      onProgress: RenderProgressHandler
+    ) =>
+      start<MasterAnalysis>(tracks, options, sampleRate, onProgress, (jobId, job) => ({ type: 'analyze', jobId, job, master })),
+
+    dispose: () => {
+      worker.terminate();
+      for (const job of pending.values()) job.reject(createAbortError());
+      pending.clear();
+    },
+  };
+};
+
+export type RenderClient = ReturnType<typeof createRenderClient>;
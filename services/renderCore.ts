@@ -0,0 +1,60 @@
+// The browser-free part of an export: mixing plain channel data and encoding
+// the result. The render worker and the command-line renderer both go
+// through here, so an arrangement comes out byte for byte the same in either.
+
+import { ClipSettings, Lane } from '../types';
+import { MIX_SAMPLE_RATE, MixJob, MixSource, createMixJob, renderMix } from './mixEngine';
+import { ExportSettings, exportMix } from './exportAudio';
+import { AudioTags } from './audioTags';
+import { WavMarker } from './wavEncoder';
+import { getArrangementCues } from './cues';
+import { ClipData, ProjectFile, ProjectFormatError } from './projectFile';
+import { createClipSettings } from './trackUtils';
+import { TaskControl, subTask } from './task';
+
+// Share of an export's progress spent mixing; encoding takes the rest
+const EXPORT_MIX_SHARE = 0.3;
+
+// Mixes a job and encodes it. `onEncoding` is called once mixing is done.
+export const renderExport = async (
+  job: MixJob,
+  sources: Map<string, MixSource>,
+  settings: ExportSettings,
+  tags: AudioTags,
+  markers: WavMarker[],
+  control?: TaskControl,
+  onEncoding?: () => void
+): Promise<Blob> => {
+  const mix = await renderMix(job, sources, subTask(control, 0, EXPORT_MIX_SHARE));
+  onEncoding?.();
+  return exportMix(mix, job.sampleRate, settings, tags, markers, subTask(control, EXPORT_MIX_SHARE, 1));
+};
+
+// Cue points written into exported WAV files: one where each audible clip starts
+export const getExportMarkers = (arrangement: { lanes: Lane[]; tracks: ClipSettings[] }): WavMarker[] =>
+  getArrangementCues(arrangement).map(cue => ({ time: cue.start, label: cue.label }));
+
+// A project's clips with defaults for fields added after it was saved, as
+// the app fills them in when opening it. `sources` holds the audio of every
+// project source by id, already at the mix rate.
+export const getProjectClips = (project: ProjectFile, sources: Map<string, MixSource>): ClipData[] =>
+  project.clips.map(clip => {
+    const source = sources.get(clip.sourceId);
+    if (!source) throw new ProjectFormatError(`No audio was supplied for ${clip.fileName}.`);
+    const duration = source.channels[0].length / source.sampleRate;
+    return { ...createClipSettings(clip.fileName, duration, clip.laneId, clip.startTime), ...clip };
+  });
+
+// Renders a saved project exactly as exporting it from the app would
+export const renderProject = (
+  project: ProjectFile,
+  sources: Map<string, MixSource>,
+  settings: ExportSettings,
+  tags: AudioTags,
+  control?: TaskControl
+): Promise<Blob> => {
+  const clips = getProjectClips(project, sources);
+  const job = createMixJob(clips, project.settings, MIX_SAMPLE_RATE, clip => clip.sourceId);
+  const markers = getExportMarkers({ lanes: project.lanes, tracks: clips });
+  return renderExport(job, sources, settings, tags, markers, control);
+};
@@ -0,0 +1,145 @@
+// Web Worker that mixes, encodes and runs clip effects off the UI thread.
+// Decoded audio is sent once per source and cached here; jobs then reference
+// it by id.
+
+import { MixClip, MixJob, MixSource, processClipSource, renderMix } from './mixEngine';
+import { ExportSettings } from './exportAudio';
+import { renderExport } from './renderCore';
+import { AudioTags } from './audioTags';
+import { WavMarker } from './wavEncoder';
+import { MasterAnalysis, MasterSettings, analyzeMaster } from './masterBus';
+import { TaskControl, isAbortError, subTask } from './task';
+
+export type RenderPhase = 'mixing' | 'analyzing' | 'encoding';
+
+export type RenderRequest =
+  | { type: 'sources'; sources: ({ id: string } & MixSource)[] }
+  | { type: 'release'; ids: string[] }
+  | { type: 'process'; jobId: number; clip: MixClip }
+  | { type: 'export'; jobId: number; job: MixJob; settings: ExportSettings; tags: AudioTags; markers: WavMarker[] }
+  | { type: 'analyze'; jobId: number; job: MixJob; master: MasterSettings }
+  | { type: 'cancel'; jobId: number };
+
+export type RenderResponse =
+  | { type: 'progress'; jobId: number; phase: RenderPhase; fraction: number }
+  | { type: 'processed'; jobId: number; channels: Float32Array[] }
+  | { type: 'exported'; jobId: number; blob: Blob }
+  | { type: 'analyzed'; jobId: number; analysis: MasterAnalysis }
+  | { type: 'error'; jobId: number; message: string };
+
+// Share of an analysis's progress spent mixing, when the mix is not cached
+const ANALYZE_MIX_SHARE = 0.4;
+
+// Smallest progress change worth a message to the UI thread
+const PROGRESS_STEP = 0.005;
+
+const sources = new Map<string, MixSource>();
+const jobs = new Map<number, AbortController>();
+
+// The last mix analyzed, so changing master settings does not remix
+let analyzedMix: { key: string; channels: Float32Array[] } | null = null;
+
+const post = (response: RenderResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+const createJobControl = (jobId: number, controller: AbortController) => {
+  let phase: RenderPhase = 'mixing';
+  let reported = -1;
+
+  const control: TaskControl = {
+    signal: controller.signal,
+    onProgress: fraction => {
+      if (fraction - reported < PROGRESS_STEP && fraction < 1) return;
+      reported = fraction;
+      post({ type: 'progress', jobId, phase, fraction });
+    },
+  };
+
+  const enterPhase = (next: RenderPhase) => {
+    phase = next;
+  };
+
+  return { control, enterPhase };
+};
+
+const runJob = async (jobId: number, run: (controller: AbortController) => Promise<void>) => {
+  const controller = new AbortController();
+  jobs.set(jobId, controller);
+  try {
+    await run(controller);
+  } catch (error) {
+    // Cancelled jobs were already settled on the UI side
+    if (!isAbortError(error)) {
+      post({ type: 'error', jobId, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    jobs.delete(jobId);
+  }
+};
+
+self.onmessage = (event: MessageEvent<RenderRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'sources':
+      for (const { id, channels, sampleRate } of request.sources) sources.set(id, { channels, sampleRate });
+      break;
+
+    case 'release':
+      for (const id of request.ids) sources.delete(id);
+      break;
+
+    case 'cancel':
+      jobs.get(request.jobId)?.abort();
+      break;
+
+    case 'process':
+      runJob(request.jobId, async controller => {
+        const { control } = createJobControl(request.jobId, controller);
+        const source = sources.get(request.clip.sourceId);
+        if (!source) throw new Error(`Missing audio source ${request.clip.sourceId}`);
+        const channels = await processClipSource(request.clip, source.channels, source.sampleRate, control);
+        post({ type: 'processed', jobId: request.jobId, channels }, channels.map(channel => channel.buffer));
+      });
+      break;
+
+    case 'export':
+      runJob(request.jobId, async controller => {
+        const { control, enterPhase } = createJobControl(request.jobId, controller);
+        const blob = await renderExport(
+          request.job,
+          sources,
+          request.settings,
+          request.tags,
+          request.markers,
+          control,
+          () => enterPhase('encoding')
+        );
+        post({ type: 'exported', jobId: request.jobId, blob });
+      });
+      break;
+
+    case 'analyze':
+      runJob(request.jobId, async controller => {
+        const { control, enterPhase } = createJobControl(request.jobId, controller);
+        const key = JSON.stringify(request.job);
+        let mixShare = 0;
+        if (analyzedMix?.key !== key) {
+          mixShare = ANALYZE_MIX_SHARE;
+          // Drop the old mix first so two are never held at once
+          analyzedMix = null;
+          analyzedMix = { key, channels: await renderMix(request.job, sources, subTask(control, 0, mixShare)) };
+        }
+        enterPhase('analyzing');
+        const analysis = await analyzeMaster(
+          analyzedMix.channels,
+          request.job.sampleRate,
+          request.master,
+          subTask(control, mixShare, 1)
+        );
+        post({ type: 'analyzed', jobId: request.jobId, analysis });
+      });
+      break;
+  }
+};
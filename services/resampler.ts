@@ -0,0 +1,87 @@
+// Band-limited resampling with a Blackman-windowed sinc kernel. The kernel is
+// tabulated at a fine sub-sample resolution and linearly interpolated between
+// table entries.
+
+import { TaskControl, createCheckpoint } from './task';
+
+// Sinc zero crossings on each side of the kernel centre
+const KERNEL_HALF_WIDTH = 16;
+
+// Table entries per zero crossing
+const TABLE_RESOLUTION = 256;
+
+// Passband edge relative to the lower Nyquist frequency; the remainder is the
+// transition band
+const CUTOFF = 0.95;
+
+const sinc = (x: number): number => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const blackman = (x: number): number => {
+  // x runs from -1 to 1 across the window
+  const t = (x + 1) / 2;
+  return 0.42 - 0.5 * Math.cos(2 * Math.PI * t) + 0.08 * Math.cos(4 * Math.PI * t);
+};
+
+// Windowed sinc sampled over [0, KERNEL_HALF_WIDTH] zero crossings
+const buildKernel = (): Float32Array => {
+  const size = KERNEL_HALF_WIDTH * TABLE_RESOLUTION + 1;
+  const table = new Float32Array(size + 1); // Extra zero entry simplifies interpolation
+  for (let i = 0; i < size; i++) {
+    const x = i / TABLE_RESOLUTION;
+    table[i] = sinc(x) * blackman(x / KERNEL_HALF_WIDTH);
+  }
+  return table;
+};
+
+const kernel = buildKernel();
+
+// Output samples computed between progress checkpoints
+const SAMPLES_PER_CHECKPOINT = 1 << 16;
+
+export const resampleChannel = async (
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  control?: TaskControl
+): Promise<Float32Array> => {
+  if (fromRate === toRate) return input.slice();
+
+  const ratio = toRate / fromRate;
+  const outputLength = Math.ceil(input.length * ratio);
+  const output = new Float32Array(outputLength);
+
+  // Cutoff as a fraction of the input Nyquist frequency. When downsampling the
+  // kernel is stretched so it also acts as the anti-aliasing filter at the new
+  // Nyquist frequency.
+  const cutoff = CUTOFF * Math.min(1, ratio);
+  const halfWidth = Math.ceil(KERNEL_HALF_WIDTH / cutoff);
+  const kernelScale = TABLE_RESOLUTION * cutoff;
+  const kernelEnd = KERNEL_HALF_WIDTH * TABLE_RESOLUTION;
+  const checkpoint = createCheckpoint(control);
+
+  for (let n = 0; n < outputLength; n++) {
+    if (n % SAMPLES_PER_CHECKPOINT === 0) await checkpoint(n / outputLength);
+
+    const position = n / ratio;
+    const center = Math.floor(position);
+    let sum = 0;
+
+    for (let k = center - halfWidth + 1; k <= center + halfWidth; k++) {
+      if (k < 0 || k >= input.length) continue;
+      const distance = Math.abs(position - k) * kernelScale;
+      if (distance >= kernelEnd) continue;
+      const index = Math.floor(distance);
+      const frac = distance - index;
+      const tap = kernel[index] + (kernel[index + 1] - kernel[index]) * frac;
+      sum += input[k] * tap;
+    }
+
+    output[n] = sum * cutoff;
+  }
+
+  return output;
+};
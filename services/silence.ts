@@ -0,0 +1,86 @@
+// Silence detection on clip sources, used to trim dead air off the head and
+// tail of recordings.
+
+import { AudioTrack } from '../types';
+import { MIN_CLIP_LENGTH } from './trackUtils';
+
+export interface SilenceSettings {
+  threshold: number; // dBFS peak level below which audio counts as silent
+  minDuration: number; // Seconds; shorter quiet stretches are left alone
+}
+
+export const DEFAULT_SILENCE_SETTINGS: SilenceSettings = {
+  threshold: -50,
+  minDuration: 0.3,
+};
+
+export interface SilentRange {
+  start: number; // Source seconds
+  end: number;
+}
+
+// Resolution of the detection
+const WINDOW_SECONDS = 0.01;
+
+// Audio kept either side of the sound when trimming, so soft onsets and
+// decays aren't cut
+const TRIM_PADDING_SECONDS = 0.05;
+
+// Stretches of `buffer` between source times `from` and `to` that stay below
+// the threshold for at least the minimum duration
+export const findSilence = (
+  buffer: AudioBuffer,
+  settings: SilenceSettings,
+  from: number = 0,
+  to: number = buffer.duration
+): SilentRange[] => {
+  const sampleRate = buffer.sampleRate;
+  const size = Math.max(1, Math.round(WINDOW_SECONDS * sampleRate));
+  const first = Math.max(0, Math.floor(from * sampleRate));
+  const last = Math.min(buffer.length, Math.ceil(to * sampleRate));
+  const limit = Math.pow(10, settings.threshold / 20);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  const ranges: SilentRange[] = [];
+  let silentFrom: number | null = null;
+  const close = (end: number) => {
+    if (silentFrom !== null && (end - silentFrom) / sampleRate >= settings.minDuration) {
+      ranges.push({ start: silentFrom / sampleRate, end: end / sampleRate });
+    }
+    silentFrom = null;
+  };
+
+  for (let start = first; start < last; start += size) {
+    const end = Math.min(last, start + size);
+    let peak = 0;
+    for (const channel of channels) {
+      for (let i = start; i < end && peak < limit; i++) peak = Math.max(peak, Math.abs(channel[i]));
+    }
+    if (peak < limit) {
+      if (silentFrom === null) silentFrom = start;
+    } else {
+      close(start);
+    }
+  }
+  close(last);
+
+  return ranges;
+};
+
+// Trim points that drop the leading and trailing silence of a clip, or null
+// when there is none to drop or the clip is silent throughout
+export const getSilenceTrim = (
+  track: AudioTrack,
+  settings: SilenceSettings
+): { trimStart: number; trimEnd: number } | null => {
+  const silence = findSilence(track.buffer, settings, track.trimStart, track.trimEnd);
+  const epsilon = 1 / track.buffer.sampleRate;
+  const head = silence.find(range => range.start <= track.trimStart + epsilon);
+  const tail = silence.find(range => range.end >= track.trimEnd - epsilon);
+  if (!head && !tail) return null;
+
+  const trimStart = head ? Math.max(track.trimStart, head.end - TRIM_PADDING_SECONDS) : track.trimStart;
+  const trimEnd = tail ? Math.min(track.trimEnd, tail.start + TRIM_PADDING_SECONDS) : track.trimEnd;
+  if (head === tail || trimEnd - trimStart < MIN_CLIP_LENGTH) return null;
+  return { trimStart, trimEnd };
+};
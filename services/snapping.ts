@@ -0,0 +1,49 @@
+// Distance in screen pixels within which a dragged edge is pulled onto a target
+export const SNAP_THRESHOLD_PX = 8;
+
+export interface SnapSettings {
+  enabled: boolean;
+  gridSize: number; // Grid spacing in seconds, 0 disables grid snapping
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  gridSize: 1,
+};
+
+export const GRID_SIZES = [0, 0.1, 0.25, 0.5, 1, 5, 10];
+
+export interface SnapResult {
+  delta: number; // Adjusted movement in seconds
+  target: number | null; // Timeline position that was snapped to, if any
+}
+
+// Adjusts a proposed movement so that whichever of the moving edges lands
+// closest to a snap target (another clip edge, the playhead, a grid line)
+// sits exactly on it. Edges and targets are timeline positions in seconds.
+export const snapMovement = (
+  edges: number[],
+  delta: number,
+  targets: number[],
+  gridSize: number,
+  threshold: number
+): SnapResult => {
+  let bestDiff = threshold;
+  let result: SnapResult = { delta, target: null };
+
+  const consider = (moved: number, target: number) => {
+    const diff = target - moved;
+    if (Math.abs(diff) < Math.abs(bestDiff)) {
+      bestDiff = diff;
+      result = { delta: delta + diff, target };
+    }
+  };
+
+  for (const edge of edges) {
+    const moved = edge + delta;
+    for (const target of targets) consider(moved, target);
+    if (gridSize > 0) consider(moved, Math.round(moved / gridSize) * gridSize);
+  }
+
+  return result;
+};
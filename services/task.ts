@@ -0,0 +1,38 @@
+// Progress reporting and cooperative cancellation for long-running renders.
+// Loops call a checkpoint every so often; it forwards progress, yields to the
+// event loop so cancel messages can arrive, and throws once aborted.
+
+export interface TaskControl {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// How long a loop may run before letting other events through
+const YIELD_INTERVAL_MS = 30;
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const createAbortError = () => new DOMException('Render cancelled', 'AbortError');
+
+// Maps a sub-step's 0..1 progress onto the [from, to] part of its parent's
+export const subTask = (control: TaskControl | undefined, from: number, to: number): TaskControl => {
+  const onProgress = control?.onProgress;
+  return {
+    signal: control?.signal,
+    onProgress: onProgress && (fraction => onProgress(from + (to - from) * fraction)),
+  };
+};
+
+export const createCheckpoint = (control: TaskControl | undefined) => {
+  let lastYield = Date.now();
+
+  return async (fraction: number) => {
+    control?.onProgress?.(fraction);
+    if (Date.now() - lastYield >= YIELD_INTERVAL_MS) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      lastYield = Date.now();
+    }
+    if (control?.signal?.aborted) throw createAbortError();
+  };
+};
@@ -0,0 +1,21 @@
+// Formats seconds as mm:ss or mm:ss.fff (hours are folded into the minutes)
+export const formatTimecode = (seconds: number, decimals: number = 3): string => {
+  const sign = seconds < 0 ? '-' : '';
+  const factor = Math.pow(10, decimals);
+  const rounded = Math.round(Math.abs(seconds) * factor) / factor;
+  const minutes = Math.floor(rounded / 60);
+  const secs = rounded - minutes * 60;
+  const secsText = secs.toFixed(decimals).padStart(decimals > 0 ? decimals + 3 : 2, '0');
+  return `${sign}${String(minutes).padStart(2, '0')}:${secsText}`;
+};
+
+// Parses typed positions: plain seconds ("90", "12.5"), mm:ss(.fff) or
+// hh:mm:ss(.fff). Returns null for anything else.
+export const parseTimecode = (text: string): number | null => {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d*)?$/.test(part))) return null;
+  // Only the seconds field may carry a fraction
+  if (parts.slice(0, -1).some(part => part.includes('.'))) return null;
+
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+};
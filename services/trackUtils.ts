@@ -0,0 +1,60 @@
+import { AudioTrack, ClipSettings } from '../types';
+
+export const generateId = (): string => Math.random().toString(36).substr(2, 9);
+
+// Neutral settings for a clip playing the whole of its source
+export const createClipSettings = (fileName: string, duration: number, laneId: string, startTime: number): ClipSettings => ({
+  id: generateId(),
+  laneId,
+  fileName,
+  startTime,
+  trimStart: 0,
+  trimEnd: duration,
+  volume: 0,
+  pan: 0,
+  muted: false,
+  solo: false,
+  fadeIn: 0,
+  fadeOut: 0,
+  fadeInCurve: 'equal-power',
+  fadeOutCurve: 'equal-power',
+  effects: [],
+  volumeEnvelope: [],
+  transcript: [],
+});
+
+// A new clip with neutral settings, playing the whole of its source
+export const createTrack = (file: File, buffer: AudioBuffer, laneId: string, startTime: number): AudioTrack => ({
+  ...createClipSettings(file.name, buffer.duration, laneId, startTime),
+  file,
+  buffer,
+  duration: buffer.duration,
+});
+
+// Shortest clip a trim is allowed to leave behind, in seconds
+export const MIN_CLIP_LENGTH = 0.05;
+
+// Audible length of a clip after trimming. The source buffer itself is never modified.
+export const getTrackLength = (track: ClipSettings): number => {
+  return Math.max(0, track.trimEnd - track.trimStart);
+};
+
+export const getArrangementDuration = (tracks: ClipSettings[]): number => {
+  return tracks.reduce((max, track) => Math.max(max, track.startTime + getTrackLength(track)), 0);
+};
+
+// Volume faders bottom out here; anything at or below is treated as silence
+export const MIN_VOLUME_DB = -60;
+export const MAX_VOLUME_DB = 12;
+
+export const dbToGain = (db: number): number => {
+  if (db <= MIN_VOLUME_DB) return 0;
+  return Math.pow(10, db / 20);
+};
+
+// A track is heard unless it is muted, or another track is soloed and it isn't
+export const isTrackAudible = (track: ClipSettings, tracks: ClipSettings[]): boolean => {
+  if (track.muted) return false;
+  const anySolo = tracks.some(t => t.solo);
+  return !anySolo || track.solo;
+};
@@ -0,0 +1,116 @@
+// Clip transcripts: splitting long clips into chunks that fit one request,
+// stitching the results back together in source time, and laying them out
+// on the timeline for subtitles.
+
+import { AudioTrack, TranscriptSegment } from '../types';
+import { AiProvider } from './aiProvider';
+import { ANALYSIS_EXPORT_SETTINGS, AudioAnalyzer, RenderAudio, getMaxRequestSeconds } from './audioAnalysis';
+import { Cue } from './cues';
+import { TaskControl, subTask } from './task';
+import { isTrackAudible } from './trackUtils';
+
+// Chunks end at the quietest moment of their last few seconds, so a cut
+// rarely lands in the middle of a word
+const CUT_SEARCH_SECONDS = 10;
+const CUT_WINDOW_SECONDS = 0.05;
+
+// Start of the window between `from` and `to` with the least energy
+const findQuietestPoint = (buffer: AudioBuffer, from: number, to: number): number => {
+  const sr = buffer.sampleRate;
+  const windowLength = Math.max(1, Math.round(CUT_WINDOW_SECONDS * sr));
+  const first = Math.floor(from * sr);
+  const last = Math.min(buffer.length, Math.floor(to * sr)) - windowLength;
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  let quietest = to;
+  let lowest = Infinity;
+  for (let start = first; start <= last; start += windowLength) {
+    let energy = 0;
+    for (const data of channels) {
+      for (let i = start; i < start + windowLength; i++) energy += data[i] * data[i];
+    }
+    if (energy < lowest) {
+      lowest = energy;
+      quietest = start / sr;
+    }
+  }
+  return quietest;
+};
+
+// Source ranges, back to back from `from` to `to`, none longer than `maxSeconds`
+export const planChunks = (
+  buffer: AudioBuffer,
+  from: number,
+  to: number,
+  maxSeconds: number
+): [number, number][] => {
+  const chunks: [number, number][] = [];
+  let start = from;
+  while (to - start > maxSeconds) {
+    const limit = start + maxSeconds;
+    const end = findQuietestPoint(buffer, Math.max(start + maxSeconds / 2, limit - CUT_SEARCH_SECONDS), limit);
+    chunks.push([start, end]);
+    start = end;
+  }
+  chunks.push([start, to]);
+  return chunks;
+};
+
+// The clip's source between `from` and `to`, leaving out everything that
+// changes how it sounds but not what is said
+const getSourceClip = (track: AudioTrack, from: number, to: number): AudioTrack => ({
+  ...track,
+  startTime: 0,
+  trimStart: from,
+  trimEnd: to,
+  volume: 0,
+  pan: 0,
+  muted: false,
+  solo: false,
+  fadeIn: 0,
+  fadeOut: 0,
+  effects: [],
+  volumeEnvelope: [],
+});
+
+// Transcribes the trimmed part of a clip, in chunks that each fit one
+// request. Phrases are returned in source time; one spanning a cut comes
+// back as two.
+export const transcribeClip = async (
+  track: AudioTrack,
+  render: RenderAudio,
+  provider: AiProvider,
+  analyzer: AudioAnalyzer,
+  control?: TaskControl
+): Promise<TranscriptSegment[]> => {
+  const maxSeconds = getMaxRequestSeconds(provider.maxAudioBytes, ANALYSIS_EXPORT_SETTINGS.sampleRate);
+  const chunks = planChunks(track.buffer, track.trimStart, track.trimEnd, maxSeconds);
+  const segments: TranscriptSegment[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const [from, to] = chunks[i];
+    const renderControl = subTask(control, i / chunks.length, (i + 0.5) / chunks.length);
+    const audio = await render([getSourceClip(track, from, to)], ANALYSIS_EXPORT_SETTINGS, renderControl);
+    control?.onProgress?.((i + 0.5) / chunks.length);
+    const chunkSegments = await analyzer.transcribe(provider, audio, to - from, control?.signal);
+    segments.push(...chunkSegments.map(s => ({ ...s, start: s.start + from, end: Math.min(to, s.end + from) })));
+  }
+  control?.onProgress?.(1);
+  return segments;
+};
+
+// Every audible clip's transcript placed at the clip's current position,
+// cut to its trim, as one list of timeline cues
+export const getArrangementTranscript = (tracks: AudioTrack[]): Cue[] =>
+  tracks
+    .filter(t => isTrackAudible(t, tracks))
+    .flatMap(t =>
+      t.transcript
+        .filter(s => s.end > t.trimStart && s.start < t.trimEnd)
+        .map(s => ({
+          start: t.startTime + Math.max(s.start, t.trimStart) - t.trimStart,
+          end: t.startTime + Math.min(s.end, t.trimEnd) - t.trimStart,
+          label: s.text,
+        }))
+    )
+    .sort((a, b) => a.start - b.start);
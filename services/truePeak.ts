@@ -0,0 +1,116 @@
+// True-peak detection as described in ITU-R BS.1770 Annex 2: the signal is
+// oversampled four times with a polyphase interpolator and the largest
+// absolute value of the oversampled signal is the true peak.
+
+import { TaskControl, createCheckpoint } from './task';
+
+const OVERSAMPLING = 4;
+
+// Taps per interpolation phase, centred on the gap being interpolated
+const PHASE_TAPS = 12;
+const HALF_TAPS = PHASE_TAPS / 2;
+
+// Frames scanned together; blocks that cannot reach the floor are skipped
+const BLOCK_FRAMES = 256;
+
+const sinc = (x: number): number => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+// Blackman-windowed sinc taps for the in-between phases 1..3. Tap k of phase p
+// weights sample i + k - HALF_TAPS + 1 when interpolating at i + p / 4.
+const buildPhases = (): Float32Array[] =>
+  Array.from({ length: OVERSAMPLING - 1 }, (_, index) => {
+    const fraction = (index + 1) / OVERSAMPLING;
+    const taps = Float32Array.from({ length: PHASE_TAPS }, (_, k) => {
+      const x = k - HALF_TAPS + 1 - fraction;
+      const t = (x + HALF_TAPS) / PHASE_TAPS;
+      const window = 0.42 - 0.5 * Math.cos(2 * Math.PI * t) + 0.08 * Math.cos(4 * Math.PI * t);
+      return sinc(x) * window;
+    });
+    // Unity gain at DC
+    const sum = taps.reduce((total, tap) => total + tap, 0);
+    return taps.map(tap => tap / sum);
+  });
+
+const phases = buildPhases();
+
+// Largest factor by which interpolation can exceed the samples it is built
+// from; used to skip quiet stretches without interpolating them
+const MAX_OVERSHOOT = Math.max(...phases.map(taps => taps.reduce((total, tap) => total + Math.abs(tap), 0)));
+
+// Peak of one channel around frame i: the sample itself and the three
+// points interpolated between it and the next frame
+const peakAt = (channel: Float32Array, i: number): number => {
+  let peak = Math.abs(channel[i]);
+  const first = i - HALF_TAPS + 1;
+  for (const taps of phases) {
+    let value = 0;
+    for (let k = 0; k < PHASE_TAPS; k++) {
+      const index = first + k;
+      if (index >= 0 && index < channel.length) value += channel[index] * taps[k];
+    }
+    peak = Math.max(peak, Math.abs(value));
+  }
+  return peak;
+};
+
+// Scans the channels block by block, handing each frame's true peak (the
+// largest across channels) to `visit`. Blocks whose samples cannot produce a
+// peak above `getFloor()` are skipped.
+const scan = async (
+  channels: Float32Array[],
+  getFloor: () => number,
+  visit: (frame: number, peak: number) => void,
+  control?: TaskControl
+) => {
+  const length = channels[0]?.length ?? 0;
+  const checkpoint = createCheckpoint(control);
+
+  for (let blockStart = 0; blockStart < length; blockStart += BLOCK_FRAMES) {
+    if (blockStart % (BLOCK_FRAMES * 256) === 0) await checkpoint(blockStart / length);
+    const blockEnd = Math.min(length, blockStart + BLOCK_FRAMES);
+
+    // Every sample the block's interpolation can draw on
+    let reach = 0;
+    const from = Math.max(0, blockStart - HALF_TAPS);
+    const to = Math.min(length, blockEnd + HALF_TAPS);
+    for (const channel of channels) {
+      for (let i = from; i < to; i++) reach = Math.max(reach, Math.abs(channel[i]));
+    }
+    if (reach * MAX_OVERSHOOT <= getFloor()) continue;
+
+    for (let i = blockStart; i < blockEnd; i++) {
+      let peak = 0;
+      for (const channel of channels) peak = Math.max(peak, peakAt(channel, i));
+      visit(i, peak);
+    }
+  }
+
+  control?.onProgress?.(1);
+};
+
+// Highest true peak of the signal, as a linear value
+export const measureTruePeak = async (channels: Float32Array[], control?: TaskControl): Promise<number> => {
+  let max = 0;
+  await scan(channels, () => max, (_, peak) => {
+    max = Math.max(max, peak);
+  }, control);
+  return max;
+};
+
+// True peak of every frame, linked across channels. Frames that cannot rise
+// above `floor` are left at zero, which is all a limiter needs to know.
+export const getFrameTruePeaks = async (
+  channels: Float32Array[],
+  floor: number,
+  control?: TaskControl
+): Promise<Float32Array> => {
+  const peaks = new Float32Array(channels[0]?.length ?? 0);
+  await scan(channels, () => floor, (frame, peak) => {
+    peaks[frame] = peak;
+  }, control);
+  return peaks;
+};
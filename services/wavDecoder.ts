@@ -0,0 +1,141 @@
+import { MixSource } from './mixEngine';
+import { resampleChannel } from './resampler';
+import { TaskControl, subTask } from './task';
+
+const FORMAT_PCM = 0x0001;
+const FORMAT_IEEE_FLOAT = 0x0003;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+// Marks a 32-bit size field whose real value is in the RF64 ds64 chunk
+const RF64_SIZE = 0xffffffff;
+
+export class WavFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WavFormatError';
+  }
+}
+
+interface WavFormat {
+  isFloat: boolean;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;
+}
+
+const readTag = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const readUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+
+const readFormat = (view: DataView, offset: number, size: number): WavFormat => {
+  if (size < 16) throw new WavFormatError('The WAV format chunk is too short.');
+  let tag = view.getUint16(offset, true);
+  // The sub-format GUID starts with the actual format tag
+  if (tag === FORMAT_EXTENSIBLE && size >= 40) tag = view.getUint16(offset + 24, true);
+
+  const format: WavFormat = {
+    isFloat: tag === FORMAT_IEEE_FLOAT,
+    channels: view.getUint16(offset + 2, true),
+    sampleRate: view.getUint32(offset + 4, true),
+    blockAlign: view.getUint16(offset + 12, true),
+    bitsPerSample: view.getUint16(offset + 14, true),
+  };
+
+  if (tag !== FORMAT_PCM && tag !== FORMAT_IEEE_FLOAT) {
+    throw new WavFormatError('Only PCM and floating-point WAV files are supported.');
+  }
+  const supportedBits = format.isFloat ? [32, 64] : [8, 16, 24, 32];
+  if (!supportedBits.includes(format.bitsPerSample)) {
+    throw new WavFormatError(`${format.bitsPerSample}-bit WAV files are not supported.`);
+  }
+  if (format.channels === 0 || format.sampleRate === 0 || format.blockAlign < format.channels * format.bitsPerSample / 8) {
+    throw new WavFormatError('The WAV format chunk is invalid.');
+  }
+  return format;
+};
+
+// Sample reader for one format, scaled the way browsers decode it: integers
+// are divided by their full scale, so 16-bit -32768 becomes exactly -1
+const createSampleReader = (view: DataView, format: WavFormat): ((offset: number) => number) => {
+  if (format.isFloat) {
+    return format.bitsPerSample === 32 ? offset => view.getFloat32(offset, true) : offset => view.getFloat64(offset, true);
+  }
+  switch (format.bitsPerSample) {
+    case 8:
+      return offset => (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return offset => view.getInt16(offset, true) / 32768;
+    case 24:
+      return offset =>
+        ((view.getInt8(offset + 2) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset)) / 8388608;
+    default:
+      return offset => view.getInt32(offset, true) / 2147483648;
+  }
+};
+
+// Decodes a PCM or floating-point WAV (or RF64) file into planar channels at
+// its own sample rate
+export const decodeWav = (data: ArrayBuffer): MixSource => {
+  const view = new DataView(data);
+  if (view.byteLength < 12 || !['RIFF', 'RF64'].includes(readTag(view, 0)) || readTag(view, 8) !== 'WAVE') {
+    throw new WavFormatError('This is not a WAV file.');
+  }
+
+  let format: WavFormat | null = null;
+  let dataSize64: number | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readTag(view, offset);
+    let size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'ds64' && size >= 16) {
+      dataSize64 = readUint64(view, body + 8);
+    } else if (id === 'fmt ') {
+      format = readFormat(view, body, size);
+    } else if (id === 'data') {
+      if (!format) throw new WavFormatError('The WAV file has no format chunk before its audio.');
+      if (size === RF64_SIZE && dataSize64 !== null) size = dataSize64;
+      // Files cut short while recording still decode up to where they end
+      const frames = Math.floor(Math.min(size, view.byteLength - body) / format.blockAlign);
+      if (frames === 0) throw new WavFormatError('The WAV file has no audio data.');
+      const bytesPerSample = format.bitsPerSample / 8;
+      const read = createSampleReader(view, format);
+      const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+
+      for (let frame = 0; frame < frames; frame++) {
+        const start = body + frame * format.blockAlign;
+        for (let channel = 0; channel < format.channels; channel++) {
+          channels[channel][frame] = read(start + channel * bytesPerSample);
+        }
+      }
+      return { channels, sampleRate: format.sampleRate };
+    }
+
+    offset = body + size + (size % 2); // Chunks are word aligned
+  }
+
+  throw new WavFormatError('The WAV file has no audio data.');
+};
+
+// Decodes a WAV file and resamples it to `sampleRate` for the mixer. The app
+// and the command-line renderer both load WAV through here, so they mix
+// exactly the same samples.
+export const loadWavSource = async (data: ArrayBuffer, sampleRate: number, control?: TaskControl): Promise<MixSource> => {
+  const source = decodeWav(data);
+  const count = source.channels.length;
+  const channels: Float32Array[] = [];
+  for (const [index, channel] of source.channels.entries()) {
+    channels.push(
+      source.sampleRate === sampleRate
+        ? channel
+        : await resampleChannel(channel, source.sampleRate, sampleRate, subTask(control, index / count, (index + 1) / count))
+    );
+  }
+  control?.onProgress?.(1);
+  return { channels, sampleRate };
+};
@@ -0,0 +1,266 @@
+import { createQuantizer } from './pcm';
+import { AudioTags, encodeUtf8 } from './audioTags';
+import { TaskControl, createCheckpoint } from './task';
+
+export type WavSampleFormat = 'pcm16' | 'pcm24' | 'float32';
+
+// Named position written as a cue point with a label
+export interface WavMarker {
+  time: number; // Seconds
+  label: string;
+}
+
+export interface WavEncodeOptions {
+  format: WavSampleFormat;
+  dither: boolean; // TPDF dither before quantizing; ignored for float
+  tags?: AudioTags;
+  markers?: WavMarker[];
+}
+
+const FORMAT_PCM = 0x0001;
+const FORMAT_IEEE_FLOAT = 0x0003;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+// Largest size a 32-bit RIFF field can hold. Bigger files are written as RF64.
+const MAX_RIFF_SIZE = 0xffffffff;
+
+// Sample data is written into Blob parts of roughly this size, so the full
+// file never has to exist as one ArrayBuffer
+const CHUNK_BYTES = 8 * 1024 * 1024;
+
+const BYTES_PER_SAMPLE: Record<WavSampleFormat, number> = {
+  pcm16: 2,
+  pcm24: 3,
+  float32: 4,
+};
+
+// Speaker positions for WAVE_FORMAT_EXTENSIBLE: front center, or front left + right
+const channelMask = (channels: number): number => (channels === 1 ? 0x4 : channels === 2 ? 0x3 : 0);
+
+// Sequential little-endian writer over a fixed-size buffer
+const createByteWriter = (size: number) => {
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = 0;
+
+  return {
+    buffer: view.buffer as ArrayBuffer,
+    tag(value: string) {
+      for (let i = 0; i < 4; i++) view.setUint8(offset++, value.charCodeAt(i));
+    },
+    uint16(value: number) {
+      view.setUint16(offset, value, true);
+      offset += 2;
+    },
+    uint32(value: number) {
+      view.setUint32(offset, value, true);
+      offset += 4;
+    },
+    uint64(value: number) {
+      view.setUint32(offset, value % 0x100000000, true);
+      view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+      offset += 8;
+    },
+    bytes(values: ArrayLike<number>) {
+      for (let i = 0; i < values.length; i++) view.setUint8(offset++, values[i]);
+    },
+  };
+};
+
+const writeHeader = (
+  channels: number,
+  sampleRate: number,
+  frames: number,
+  format: WavSampleFormat,
+  trailerSize: number
+): ArrayBuffer => {
+  const bytesPerSample = BYTES_PER_SAMPLE[format];
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = frames * blockAlign;
+  const padding = dataSize % 2;
+
+  // Anything above 16 bits or two channels needs WAVE_FORMAT_EXTENSIBLE to be
+  // unambiguous; float data also carries a fact chunk
+  const extensible = format !== 'pcm16' || channels > 2;
+  const isFloat = format === 'float32';
+  const fmtSize = extensible ? 40 : 16;
+  const factSize = isFloat ? 12 : 0;
+
+  const riffSize = 4 + (8 + fmtSize) + factSize + (8 + dataSize + padding) + trailerSize;
+  const rf64 = riffSize + 36 > MAX_RIFF_SIZE;
+  const headerSize = 12 + (rf64 ? 36 : 0) + 8 + fmtSize + factSize + 8;
+
+  const writer = createByteWriter(headerSize);
+
+  if (rf64) {
+    writer.tag('RF64');
+    writer.uint32(MAX_RIFF_SIZE);
+    writer.tag('WAVE');
+    writer.tag('ds64');
+    writer.uint32(28);
+    writer.uint64(riffSize + 36);
+    writer.uint64(dataSize);
+    writer.uint64(frames);
+    writer.uint32(0); // No extra table entries
+  } else {
+    writer.tag('RIFF');
+    writer.uint32(riffSize);
+    writer.tag('WAVE');
+  }
+
+  writer.tag('fmt ');
+  writer.uint32(fmtSize);
+  writer.uint16(extensible ? FORMAT_EXTENSIBLE : FORMAT_PCM);
+  writer.uint16(channels);
+  writer.uint32(sampleRate);
+  writer.uint32(sampleRate * blockAlign); // avg. bytes/sec
+  writer.uint16(blockAlign);
+  writer.uint16(bytesPerSample * 8);
+  if (extensible) {
+    writer.uint16(22); // Size of the extension
+    writer.uint16(bytesPerSample * 8); // Valid bits per sample
+    writer.uint32(channelMask(channels));
+    // Sub-format GUID: {format tag}-0000-0010-8000-00AA00389B71
+    writer.uint16(isFloat ? FORMAT_IEEE_FLOAT : FORMAT_PCM);
+    writer.bytes([0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71]);
+  }
+
+  if (isFloat) {
+    writer.tag('fact');
+    writer.uint32(4);
+    writer.uint32(rf64 ? MAX_RIFF_SIZE : frames);
+  }
+
+  writer.tag('data');
+  writer.uint32(rf64 ? MAX_RIFF_SIZE : dataSize);
+
+  return writer.buffer;
+};
+
+// LIST/INFO chunk carrying the title (INAM) and artist (IART) tags, or null
+// when there is nothing to write
+const createInfoChunk = (tags: AudioTags | undefined): ArrayBuffer | null => {
+  const fields = [
+    { id: 'INAM', value: tags?.title?.trim() },
+    { id: 'IART', value: tags?.artist?.trim() },
+  ]
+    .filter(field => field.value)
+    .map(field => ({ id: field.id, bytes: encodeUtf8(field.value as string) }));
+  if (fields.length === 0) return null;
+
+  // Each value is NUL terminated and padded to an even length
+  const paddedLength = (bytes: Uint8Array) => (bytes.length + 2) & ~1;
+  const listSize = 4 + fields.reduce((sum, field) => sum + 8 + paddedLength(field.bytes), 0);
+
+  const writer = createByteWriter(8 + listSize);
+  writer.tag('LIST');
+  writer.uint32(listSize);
+  writer.tag('INFO');
+  for (const field of fields) {
+    writer.tag(field.id);
+    writer.uint32(field.bytes.length + 1);
+    writer.bytes(field.bytes);
+    writer.bytes(new Uint8Array(paddedLength(field.bytes) - field.bytes.length));
+  }
+  return writer.buffer;
+};
+
+// "cue " chunk listing the markers' sample positions, followed by a
+// LIST/adtl chunk with a labl entry naming each one, or null without markers
+const createCueChunks = (markers: WavMarker[] | undefined, sampleRate: number, frames: number): ArrayBuffer | null => {
+  if (!markers || markers.length === 0) return null;
+
+  const labels = markers.map(marker => encodeUtf8(marker.label.trim()));
+  const paddedLength = (bytes: Uint8Array) => (bytes.length + 2) & ~1;
+  const cueSize = 4 + markers.length * 24;
+  const listSize = 4 + labels.reduce((sum, label) => sum + 8 + 4 + paddedLength(label), 0);
+
+  const writer = createByteWriter(8 + cueSize + 8 + listSize);
+  writer.tag('cue ');
+  writer.uint32(cueSize);
+  writer.uint32(markers.length);
+  markers.forEach((marker, index) => {
+    // Positions are 32-bit, so markers past that point in an RF64 file are pinned to it
+    const position = Math.min(frames, MAX_RIFF_SIZE, Math.max(0, Math.round(marker.time * sampleRate)));
+    writer.uint32(index + 1); // Cue point id
+    writer.uint32(position);
+    writer.tag('data');
+    writer.uint32(0); // Chunk start
+    writer.uint32(0); // Block start
+    writer.uint32(position); // Sample offset
+  });
+
+  writer.tag('LIST');
+  writer.uint32(listSize);
+  writer.tag('adtl');
+  labels.forEach((label, index) => {
+    writer.tag('labl');
+    writer.uint32(4 + label.length + 1);
+    writer.uint32(index + 1);
+    writer.bytes(label);
+    writer.bytes(new Uint8Array(paddedLength(label) - label.length));
+  });
+  return writer.buffer;
+};
+
+// Encodes planar channel data as a WAV file. Files whose size would overflow
+// the 32-bit RIFF fields are written as RF64 (EBU Tech 3306).
+export const encodeWav = async (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: WavEncodeOptions,
+  control?: TaskControl
+): Promise<Blob> => {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const bytesPerSample = BYTES_PER_SAMPLE[options.format];
+  const blockAlign = numChannels * bytesPerSample;
+
+  const info = createInfoChunk(options.tags);
+  const cues = createCueChunks(options.markers, sampleRate, frames);
+  const trailerSize = (info?.byteLength ?? 0) + (cues?.byteLength ?? 0);
+  const parts: BlobPart[] = [writeHeader(numChannels, sampleRate, frames, options.format, trailerSize)];
+
+  const quantize = createQuantizer(bytesPerSample * 8, options.dither);
+  const checkpoint = createCheckpoint(control);
+
+  const framesPerChunk = Math.max(1, Math.floor(CHUNK_BYTES / blockAlign));
+  for (let start = 0; start < frames; start += framesPerChunk) {
+    await checkpoint(start / frames);
+    const end = Math.min(frames, start + framesPerChunk);
+    const view = new DataView(new ArrayBuffer((end - start) * blockAlign));
+    let offset = 0;
+
+    for (let frame = start; frame < end; frame++) {
+      for (let channel = 0; channel < numChannels; channel++) {
+        const sample = channels[channel][frame];
+
+        if (options.format === 'float32') {
+          view.setFloat32(offset, sample, true);
+          offset += 4;
+          continue;
+        }
+
+        const value = quantize(sample);
+
+        if (bytesPerSample === 2) {
+          view.setInt16(offset, value, true);
+        } else {
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setInt8(offset + 2, value >> 16);
+        }
+        offset += bytesPerSample;
+      }
+    }
+
+    parts.push(view.buffer as ArrayBuffer);
+  }
+
+  if ((frames * blockAlign) % 2 === 1) {
+    parts.push(new Uint8Array(1)); // RIFF chunks are word aligned
+  }
+  if (info) parts.push(info);
+  if (cues) parts.push(cues);
+
+  return new Blob(parts, { type: 'audio/wav' });
+};
@@ -0,0 +1,119 @@
+// Finest level of the pyramid: one min/max pair per this many source samples
+const BASE_SAMPLES_PER_PEAK = 64;
+
+// Stop adding coarser levels once a level has fewer peaks than this
+const MIN_PEAKS_PER_LEVEL = 256;
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Min/max summaries of an AudioBuffer at successively halved resolutions, so
+// drawing at any zoom level only has to scan roughly one peak per pixel
+export interface PeakPyramid {
+  sampleRate: number;
+  length: number;
+  levels: PeakLevel[];
+}
+
+export interface Peaks {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Decoded buffers are immutable here, so peaks can be keyed on the buffer
+// itself and are released together with it
+const pyramidCache = new WeakMap<AudioBuffer, PeakPyramid>();
+
+const buildBaseLevel = (buffer: AudioBuffer): PeakLevel => {
+  const count = Math.ceil(buffer.length / BASE_SAMPLES_PER_PEAK);
+  const min = new Float32Array(count).fill(1);
+  const max = new Float32Array(count).fill(-1);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let peak = 0; peak < count; peak++) {
+      const end = Math.min(data.length, (peak + 1) * BASE_SAMPLES_PER_PEAK);
+      let lo = min[peak];
+      let hi = max[peak];
+      for (let i = peak * BASE_SAMPLES_PER_PEAK; i < end; i++) {
+        const sample = data[i];
+        if (sample < lo) lo = sample;
+        if (sample > hi) hi = sample;
+      }
+      min[peak] = lo;
+      max[peak] = hi;
+    }
+  }
+
+  return { samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max };
+};
+
+const buildCoarserLevel = (level: PeakLevel): PeakLevel => {
+  const count = Math.ceil(level.min.length / 2);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let peak = 0; peak < count; peak++) {
+    const a = peak * 2;
+    const b = Math.min(a + 1, level.min.length - 1);
+    min[peak] = Math.min(level.min[a], level.min[b]);
+    max[peak] = Math.max(level.max[a], level.max[b]);
+  }
+
+  return { samplesPerPeak: level.samplesPerPeak * 2, min, max };
+};
+
+export const getPeakPyramid = (buffer: AudioBuffer): PeakPyramid => {
+  const cached = pyramidCache.get(buffer);
+  if (cached) return cached;
+
+  const levels = [buildBaseLevel(buffer)];
+  while (levels[levels.length - 1].min.length > MIN_PEAKS_PER_LEVEL) {
+    levels.push(buildCoarserLevel(levels[levels.length - 1]));
+  }
+
+  const pyramid = { sampleRate: buffer.sampleRate, length: buffer.length, levels };
+  pyramidCache.set(buffer, pyramid);
+  return pyramid;
+};
+
+// Summarises the source range [startTime, endTime) into `columns` min/max
+// pairs, reading from the coarsest level that still has at least one peak
+// per column
+export const getPeaks = (
+  pyramid: PeakPyramid,
+  startTime: number,
+  endTime: number,
+  columns: number
+): Peaks => {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  if (columns <= 0 || endTime <= startTime) return { min, max };
+
+  const startSample = startTime * pyramid.sampleRate;
+  const samplesPerColumn = ((endTime - startTime) * pyramid.sampleRate) / columns;
+
+  let level = pyramid.levels[0];
+  for (const candidate of pyramid.levels) {
+    if (candidate.samplesPerPeak > samplesPerColumn) break;
+    level = candidate;
+  }
+
+  for (let column = 0; column < columns; column++) {
+    const from = Math.floor((startSample + column * samplesPerColumn) / level.samplesPerPeak);
+    const to = Math.max(from + 1, Math.ceil((startSample + (column + 1) * samplesPerColumn) / level.samplesPerPeak));
+    let lo = 0;
+    let hi = 0;
+    for (let peak = from; peak < to && peak < level.min.length; peak++) {
+      if (level.min[peak] < lo) lo = level.min[peak];
+      if (level.max[peak] > hi) hi = level.max[peak];
+    }
+    min[column] = lo;
+    max[column] = hi;
+  }
+
+  return { min, max };
+};
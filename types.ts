@@ -1,11 +1,109 @@
-export interface AudioTrack {
+export type FadeCurve = 'linear' | 'equal-power' | 'logarithmic';
+
+// A horizontal row of the arrangement. Lanes only organise clips visually;
+// every clip is still mixed on its own.
+export interface Lane {
   id: string;
-  file: File;
+  name: string;
+  color: string;
+}
+
+export type EqBandType = 'highpass' | 'lowshelf' | 'peaking' | 'highshelf' | 'lowpass';
+
+export interface EqBand {
+  type: EqBandType;
+  frequency: number; // Hz
+  gain: number; // dB, ignored by the pass filters
+  q: number;
+}
+
+interface EffectBase {
+  id: string;
+  bypass: boolean;
+}
+
+export interface EqEffect extends EffectBase {
+  type: 'eq';
+  bands: EqBand[];
+}
+
+export interface CompressorEffect extends EffectBase {
+  type: 'compressor';
+  threshold: number; // dB
+  ratio: number;
+  attack: number; // ms
+  release: number; // ms
+  makeup: number; // dB
+}
+
+export interface GateEffect extends EffectBase {
+  type: 'gate';
+  threshold: number; // dB
+  attack: number; // ms
+  hold: number; // ms
+  release: number; // ms
+}
+
+export interface ReverbEffect extends EffectBase {
+  type: 'reverb';
+  roomSize: number; // 0-1
+  damping: number; // 0-1
+  mix: number; // 0 (dry) to 1 (wet)
+}
+
+export type Effect = EqEffect | CompressorEffect | GateEffect | ReverbEffect;
+export type EffectType = Effect['type'];
+
+// Breakpoint of a clip's volume envelope. Times are positions in the source
+// audio, like trimStart, so points stay with the sound when a clip is trimmed
+// or split. Gain is interpolated linearly in dB between points and held
+// before the first and after the last.
+export interface AutomationPoint {
+  time: number; // Seconds into the source
+  gain: number; // dB, applied on top of the clip volume
+}
+
+// Timed phrase of a clip's transcript. Times are positions in the source
+// audio, as for automation points, so moving a clip never needs a new
+// transcription.
+export interface TranscriptSegment {
+  start: number; // Seconds into the source
+  end: number; // Seconds into the source
+  text: string;
+}
+
+// Everything about a clip except its audio: where it sits and how it is
+// mixed. The mixer and the project file only ever need this part.
+export interface ClipSettings {
+  id: string;
+  laneId: string;
   fileName: string;
+  startTime: number; // In seconds
+  trimStart: number; // Source offset the clip starts playing from, in seconds
+  trimEnd: number; // Source offset the clip stops playing at, in seconds
+  volume: number; // Gain in dB, 0 = unity
+  pan: number; // -1 (hard left) to 1 (hard right)
+  muted: boolean;
+  solo: boolean;
+  fadeIn: number; // Fade-in length in seconds
+  fadeOut: number; // Fade-out length in seconds
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+  effects: Effect[]; // Insert chain, applied in order before fades, volume and pan
+  volumeEnvelope: AutomationPoint[]; // Sorted by time; empty for none
+  transcript: TranscriptSegment[]; // Sorted by start; empty until transcribed
+}
+
+// A single clip placed on a lane. Clips on the same lane never overlap.
+export interface AudioTrack extends ClipSettings {
+  file: File;
   buffer: AudioBuffer;
   duration: number;
-  startTime: number; // In seconds
-  color: string;
+}
+
+export interface Arrangement {
+  lanes: Lane[];
+  tracks: AudioTrack[];
 }
 
 export interface PlaybackState {
@@ -14,7 +112,25 @@ export interface PlaybackState {
   totalDuration: number;
 }
 
+// Section of the timeline that repeats during playback, in seconds
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+// Labelled span drawn above the lanes, in seconds
+export interface TimelineMarker {
+  id: string;
+  start: number;
+  end: number;
+  label: string;
+  detail: string; // Shown on hover
+  color: string;
+}
+
 export interface ProcessingState {
   isProcessing: boolean;
   message: string;
+  progress?: number; // 0-1 when the work reports it
+  onCancel?: () => void;
 }